@@ -1,56 +1,263 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import TextViewer from './components/TextViewer';
-import { generateWordTimings } from './services/geminiService';
+import AlignerPicker from './components/AlignerPicker';
+import TimingEditor from './components/TimingEditor';
+import ReconciliationReport from './components/ReconciliationReport';
+import ChunkProgress from './components/ChunkProgress';
+import TimingIssuesReport from './components/TimingIssuesReport';
+import QualityReport from './components/QualityReport';
+import ReviewBar from './components/ReviewBar';
+import AudioRecorder from './components/AudioRecorder';
+import PracticeBar from './components/PracticeBar';
+import PreprocessPanel from './components/PreprocessPanel';
+import UsagePanel from './components/UsagePanel';
+import ProjectLibrary, { bundleFileName } from './components/ProjectLibrary';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import LanguagePicker from './components/LanguagePicker';
+import TranslationPanel from './components/TranslationPanel';
+import SpeakerPanel from './components/SpeakerPanel';
+import SearchBar from './components/SearchBar';
+import OutlineSidebar from './components/OutlineSidebar';
+import ReaderSettingsPanel from './components/ReaderSettingsPanel';
+import KeyboardShortcuts from './components/KeyboardShortcuts';
+import PlaybackToolbar from './components/PlaybackToolbar';
+import Scrubber from './components/Scrubber';
+import { usePlaybackControls, PLAYBACK_RATES, REPEAT_COUNTS } from './hooks/usePlaybackControls';
+import { useUndoableState } from './hooks/useUndoableState';
+import { isRecordingSupported } from './hooks/useAudioRecorder';
+import { isReadAlongSupported, useReadAlong } from './hooks/useReadAlong';
+import { useTranscriptSearch } from './hooks/useTranscriptSearch';
+import { getAligner, getDefaultAlignerId } from './services/aligners';
+import { buildViewElements } from './services/viewElements';
+import { finalizeTimings, synchronize } from './services/timingPipeline';
+import { getAudioDuration } from './services/audioUtils';
+import { buildQualityReport, confirmEditedTimings, detectSpeech, LOW_CONFIDENCE } from './services/confidence';
+import { assignSpeaker, removeSpeaker, syncSpeakers } from './services/speakers';
+import { addBookmark, createBookmark, fitBookmarks } from './services/bookmarks';
+import { buildOutline } from './services/outline';
+import { canTranscribe, transcribeAudio } from './services/transcription';
+import { loadPreprocessing, mapTimingsToOriginal, preprocessAudio, preprocessingKey, savePreprocessing } from './services/preprocess';
+import { AlignmentError, ExportError, UnsupportedExportConfigError } from './services/errors';
+import { createProjectId, getProject, saveProject } from './services/projectStore';
+import { exportProjectBundle } from './services/projectBundle';
+import { createVideoRenderer, ensureFontLoaded, loadImage, type VideoRenderer } from './services/videoRenderer';
+import { loadExportSettings, saveExportSettings } from './services/exportSettings';
+import { loadReaderSettings, READER_FONT_SIZE, saveReaderSettings } from './services/readerSettings';
+import { loadUsageLimits, saveUsageLimits } from './services/usage';
+import { renderVideoOffline } from './services/offlineRenderer';
+import { createTimeline } from './services/timeline';
+import { AUTO_LANGUAGE, resolveDirection, resolveLanguage } from './services/language';
+import { buildSegments, findRangeIndex, getActiveSegment, HIGHLIGHT_MODES } from './services/segmentation';
+import { detectExportSupport, findRecorderMimeType, getContainer, CONTAINERS } from './services/videoCodecs';
+import { getChunkJobKey, loadChunkJob } from './services/chunkedAlignment';
+import { parseTimings, serializeTimings, TIMING_FORMATS, type TimingFormat } from './services/timingFormats';
+import { downloadBlob } from './services/download';
 import { PlayIcon, PauseIcon, StopIcon, LoadingIcon, ExportIcon } from './constants';
-import type { WordTiming, ViewElement } from './types';
+import type { WordTiming, ViewElement, AlignerId, ReconciliationIssue, ChunkedAlignmentJob, TimingIssue, Project, ExportSettings, HighlightMode, DirectionSetting, Translation, ParallelLayout, AudioPreprocessing, Speaker, WordRange, Bookmark, ReaderSettings, UsageLimits } from './types';
 
 type AppState = 'input' | 'loading' | 'ready' | 'error';
 
-const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const [mime, data] = result.split(';base64,');
-      if (!mime || !data) {
-        return reject(new Error('Invalid file format.'));
-      }
-      const mimeType = mime.split(':')[1];
-      resolve({ base64: data, mimeType });
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
-
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('input');
   
   // Input state
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [textInput, setTextInput] = useState<string>('');
+  const [language, setLanguage] = useState<string>(AUTO_LANGUAGE);
+  const [direction, setDirection] = useState<DirectionSetting>('auto');
+  const [translation, setTranslation] = useState<Translation | null>(null);
+  const [parallelLayout, setParallelLayout] = useState<ParallelLayout>('side-by-side');
+  const [showTranslationPanel, setShowTranslationPanel] = useState<boolean>(false);
+  // Names and colours the user gave speakers; labels on the timings without an entry get defaults.
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [showSpeakerPanel, setShowSpeakerPanel] = useState<boolean>(false);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [showOutline, setShowOutline] = useState<boolean>(false);
+  const [readerSettings, setReaderSettings] = useState<ReaderSettings>(loadReaderSettings);
+  const [showReaderSettings, setShowReaderSettings] = useState<boolean>(false);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  const [alignerId, setAlignerId] = useState<AlignerId>(getDefaultAlignerId);
+  const [importedTimings, setImportedTimings] = useState<WordTiming[] | null>(null);
+  // Timings that came with an automatic transcript; the edited text is reconciled against them.
+  const [transcriptionDraft, setTranscriptionDraft] = useState<{ timings: WordTiming[]; source: string } | null>(null);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<{ done: number; total: number } | null>(null);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
+  const [importedFileName, setImportedFileName] = useState<string | null>(null);
+
+  // Loading state
+  const [chunkJob, setChunkJob] = useState<ChunkedAlignmentJob | null>(null);
+  const alignmentAbortRef = useRef<AbortController | null>(null);
   
   // Ready/playback state
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
-  const [wordTimings, setWordTimings] = useState<WordTiming[]>([]);
-  const [viewElements, setViewElements] = useState<ViewElement[]>([]);
+  // Object URLs hold the whole file in memory until revoked: release each one once it's replaced or the app unmounts.
+  useEffect(() => () => {
+    if (audioSrc) URL.revokeObjectURL(audioSrc);
+  }, [audioSrc]);
+  const timingHistory = useUndoableState<WordTiming[]>([]);
+  const wordTimings = timingHistory.value;
+  const viewElements = useMemo<ViewElement[]>(() => buildViewElements(textInput, wordTimings), [textInput, wordTimings]);
+  const detectedLanguage = useMemo(() => resolveLanguage(AUTO_LANGUAGE, textInput), [textInput]);
+  const resolvedLanguage = language === AUTO_LANGUAGE ? detectedLanguage : language;
+  const resolvedDirection = resolveDirection(direction, resolvedLanguage);
+  const parallelText = useMemo(() => translation && {
+    segments: translation.segments,
+    layout: parallelLayout,
+    direction: resolveDirection('auto', translation.language),
+    language: translation.language,
+  }, [translation, parallelLayout]);
+  const speakerList = useMemo(() => syncSpeakers(wordTimings, speakers), [wordTimings, speakers]);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [showExportSettings, setShowExportSettings] = useState<boolean>(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
   const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
+  const [highlightMode, setHighlightMode] = useState<HighlightMode>('word');
   const [error, setError] = useState<string | null>(null);
+  const [reconciliationIssues, setReconciliationIssues] = useState<ReconciliationIssue[]>([]);
+  const [timingIssues, setTimingIssues] = useState<TimingIssue[]>([]);
+
+  // Project state
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState<string>('');
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+
+  // Edit mode state
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isReviewing, setIsReviewing] = useState<boolean>(false);
+  const [isPracticing, setIsPracticing] = useState<boolean>(false);
+  const [showRecorder, setShowRecorder] = useState<boolean>(false);
+  const [preprocessing, setPreprocessing] = useState<AudioPreprocessing>(loadPreprocessing);
+  const [usageLimits, setUsageLimits] = useState<UsageLimits>(loadUsageLimits);
+  const [selectedWordIndex, setSelectedWordIndex] = useState<number>(-1);
 
   const audioRef = useRef<HTMLAudioElement>(null);
+  const segments = useMemo(() => buildSegments(viewElements), [viewElements]);
+  const qualityReport = useMemo(() => buildQualityReport(wordTimings), [wordTimings]);
+  const sentenceRanges = segments.sentence;
+  const timeline = useMemo(() => createTimeline(wordTimings), [wordTimings]);
+  const playback = usePlaybackControls(audioRef, wordTimings, timeline, sentenceRanges, isExporting);
+  const readAlong = useReadAlong(wordTimings, resolvedLanguage);
+  const search = useTranscriptSearch(wordTimings, activeWordIndex);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const outline = useMemo(() => buildOutline(segments.paragraph), [segments]);
+  const visibleBookmarks = useMemo(() => fitBookmarks(bookmarks, wordTimings.length), [bookmarks, wordTimings.length]);
+  const lastClickedWordRef = useRef<number>(-1);
+
+  // What the live region reads out while playing: the current sentence or word, per the reader settings.
+  const announcement = useMemo(() => {
+    if (!isPlaying || activeWordIndex < 0 || readerSettings.announce === 'off') return '';
+    if (readerSettings.announce === 'word') return wordTimings[activeWordIndex]?.word ?? '';
+    const range = sentenceRanges[findRangeIndex(sentenceRanges, activeWordIndex)];
+    return range ? wordTimings.slice(range.start, range.end + 1).map(t => t.word).join(' ') : '';
+  }, [isPlaying, activeWordIndex, readerSettings.announce, wordTimings, sentenceRanges]);
+
+  // A previous run for the same file, transcript and backend that can be resumed.
+  const resumableJob = useMemo(() => {
+    if (!audioFile || !textInput.trim() || importedTimings || transcriptionDraft || appState === 'loading') return null;
+    const job = loadChunkJob(getChunkJobKey(audioFile, textInput, alignerId, preprocessingKey(preprocessing)));
+    return job && job.chunks.length > 1 ? job : null;
+  }, [audioFile, textInput, alignerId, importedTimings, transcriptionDraft, appState, preprocessing]);
+
+  const selectAudioFile = (file: File) => {
+    setAudioFile(file);
+    setPreprocessing(settings => ({ ...settings, range: null }));
+    setTranscriptionDraft(null);
+    setAudioSrc(URL.createObjectURL(file));
+    setError(null);
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      setAudioFile(file);
-      const objectUrl = URL.createObjectURL(file);
-      setAudioSrc(objectUrl);
+    if (file) selectAudioFile(file);
+  };
+
+  const handlePreprocessingChange = (settings: AudioPreprocessing) => {
+    setPreprocessing(settings);
+    savePreprocessing(settings);
+  };
+
+  const handleUsageLimitsChange = (limits: UsageLimits) => {
+    setUsageLimits(limits);
+    saveUsageLimits(limits);
+  };
+
+  // Requests are logged against the project name, or the audio file's name before the project is saved.
+  const getUsageContext = (file: File) => ({ project: projectName.trim() || file.name.replace(/\.[^.]+$/, ''), limits: usageLimits });
+
+  const handleRecordingReady = (file: File) => {
+    selectAudioFile(file);
+    setShowRecorder(false);
+  };
+
+  const handleTimingsFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseTimings(file.name, await file.text());
+      if (!parsed.timings.length) {
+        throw new Error('The file does not contain any timed words.');
+      }
+      setImportedTimings(parsed.timings);
+      setImportedFileName(file.name);
+      setSpeakers(parsed.speakers ?? []);
+      setBookmarks(parsed.bookmarks ?? []);
+      if (!textInput.trim() && parsed.transcript) {
+        setTextInput(parsed.transcript);
+      }
       setError(null);
+    } catch (err) {
+      console.error("Error importing timings:", err);
+      setError(`Could not read timings from "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
     }
   };
 
+  const handleClearImportedTimings = () => {
+    setImportedTimings(null);
+    setImportedFileName(null);
+  };
+
+  // Transcript-free mode: the backend transcribes, and the draft lands in the transcript box for correcting.
+  const handleTranscribe = async () => {
+    if (!audioFile) return;
+    const aligner = getAligner(alignerId);
+    const controller = new AbortController();
+    transcriptionAbortRef.current = controller;
+    setError(null);
+    setTranscriptionProgress({ done: 0, total: 1 });
+    try {
+      const prepared = preprocessing.enabled ? await preprocessAudio(audioFile, preprocessing) : null;
+      const draft = await transcribeAudio({
+        audio: prepared?.audio ?? audioFile,
+        mimeType: prepared ? prepared.audio.type : audioFile.type || 'application/octet-stream',
+        language: language === AUTO_LANGUAGE ? undefined : language,
+        aligner,
+        onProgress: (done, total) => setTranscriptionProgress({ done, total }),
+        signal: controller.signal,
+        usage: getUsageContext(audioFile),
+      });
+      setTextInput(draft.text);
+      setTranscriptionDraft({ timings: prepared ? mapTimingsToOriginal(draft.timings, prepared.offset) : draft.timings, source: aligner.label });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Error transcribing audio:", err);
+        setError(err instanceof AlignmentError ? err.message : 'Could not transcribe the audio. Please try again.');
+      }
+    } finally {
+      setTranscriptionProgress(null);
+      transcriptionAbortRef.current = null;
+    }
+  };
+
+  const handleExportTimings = (format: TimingFormat) => {
+    const { extension, mimeType } = TIMING_FORMATS.find(f => f.id === format)!;
+    const content = serializeTimings(format, { transcript: textInput, timings: wordTimings, speakers: speakerList, bookmarks: visibleBookmarks });
+    downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), `synced-timings.${extension}`);
+  };
+
   const handleSubmit = async () => {
     if (!audioFile || !textInput.trim()) {
       setError('Please provide both an audio file and the transcript text.');
@@ -58,69 +265,207 @@ const App: React.FC = () => {
     }
     setAppState('loading');
     setError(null);
+    setChunkJob(null);
+    const controller = new AbortController();
+    alignmentAbortRef.current = controller;
+    const jobKey = getChunkJobKey(audioFile, textInput, alignerId, preprocessingKey(preprocessing));
     try {
-      const { base64, mimeType } = await fileToBase64(audioFile);
-      const timings = await generateWordTimings(base64, mimeType, textInput);
-      setWordTimings(timings);
-
-      const newViewElements: ViewElement[] = [];
-      let textCursor = 0;
-      timings.forEach((timing, index) => {
-        const wordStartIndex = textInput.indexOf(timing.word, textCursor);
-
-        if (wordStartIndex === -1) {
-            console.warn(`Could not find word "${timing.word}" in transcript starting from index ${textCursor}. Appending word without preceding whitespace.`);
-             newViewElements.push({ type: 'word', ...timing, originalIndex: index });
-             return;
-        }
-
-        const whitespaceContent = textInput.substring(textCursor, wordStartIndex);
-        if (whitespaceContent) {
-            newViewElements.push({ type: 'whitespace', content: whitespaceContent });
-        }
-        
-        newViewElements.push({ type: 'word', ...timing, originalIndex: index });
-        textCursor = wordStartIndex + timing.word.length;
-      });
-
-      const remainingWhitespace = textInput.substring(textCursor);
-      if (remainingWhitespace) {
-          newViewElements.push({ type: 'whitespace', content: remainingWhitespace });
+      let result;
+      const presetTimings = importedTimings ?? transcriptionDraft?.timings;
+      if (presetTimings) {
+        // For a corrected transcription draft, unchanged words keep their timings and edited ones are re-derived.
+        result = finalizeTimings(textInput, presetTimings, await getAudioDuration(audioFile), await detectSpeech(audioFile));
+      } else {
+        // The aligner gets the cleaned-up audio; its timings are shifted back onto the original file.
+        const prepared = preprocessing.enabled ? await preprocessAudio(audioFile, preprocessing) : null;
+        controller.signal.throwIfAborted();
+        const synced = await synchronize({
+          audio: prepared?.audio ?? audioFile,
+          mimeType: prepared ? prepared.audio.type : audioFile.type || 'application/octet-stream',
+          transcript: textInput,
+          language: resolvedLanguage,
+          aligner: getAligner(alignerId),
+          onProgress: setChunkJob,
+          signal: controller.signal,
+          usage: getUsageContext(audioFile),
+        }, jobKey);
+        result = prepared ? { ...synced, timings: mapTimingsToOriginal(synced.timings, prepared.offset) } : synced;
       }
-
-      setViewElements(newViewElements);
+      timingHistory.reset(result.timings);
+      if (!importedTimings) {
+        setSpeakers([]);
+        setBookmarks([]);
+      }
+      setReconciliationIssues(result.reconciliationIssues);
+      setTimingIssues(result.timingIssues);
       setAppState('ready');
     } catch (err) {
+      if (controller.signal.aborted) {
+        setAppState('input');
+        return;
+      }
       console.error("Error generating word timings:", err);
-      setError("Failed to synchronize audio and text. The model may have been unable to process the request. Please try again with a clearer audio file or more accurate transcript.");
+      setError(err instanceof AlignmentError
+        ? err.message
+        : "Failed to synchronize audio and text. The model may have been unable to process the request. Please try again with a clearer audio file or more accurate transcript.");
       setAppState('error');
     }
   };
   
+  const handleCancelAlignment = () => {
+    alignmentAbortRef.current?.abort();
+  };
+
+  const buildCurrentProject = async (): Promise<Project | null> => {
+    if (!audioFile) return null;
+    const existing = projectId ? await getProject(projectId) : undefined;
+    const now = Date.now();
+    return {
+      id: projectId ?? createProjectId(),
+      name: projectName.trim() || audioFile.name.replace(/\.[^.]+$/, ''),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      audio: audioFile,
+      audioName: audioFile.name,
+      transcript: textInput,
+      timings: wordTimings,
+      history: { past: timingHistory.past, future: timingHistory.future },
+      language,
+      direction,
+      translation: translation ?? undefined,
+      speakers: speakerList.length ? speakerList : undefined,
+      bookmarks: visibleBookmarks.length ? visibleBookmarks : undefined,
+    };
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      const project = await buildCurrentProject();
+      if (!project) return;
+      const saved = await saveProject(project);
+      setProjectId(saved.id);
+      setProjectName(saved.name);
+      setSaveStatus(`Saved at ${new Date(saved.updatedAt).toLocaleTimeString()}`);
+    } catch (err) {
+      console.error("Error saving project:", err);
+      setSaveStatus('Could not save the project.');
+    }
+  };
+
+  const handleExportPlayer = async () => {
+    if (!audioFile) return;
+    const title = projectName.trim() || audioFile.name.replace(/\.[^.]+$/, '');
+    try {
+      // Loaded on demand: it pulls in the React server renderer.
+      const { buildStandalonePlayer } = await import('./services/htmlPlayer');
+      const blob = await buildStandalonePlayer({
+        title,
+        audio: audioFile,
+        transcript: textInput,
+        timings: wordTimings,
+        language: resolvedLanguage,
+        direction: resolvedDirection,
+        parallelText,
+        speakers: speakerList,
+      });
+      downloadBlob(blob, `${title}.html`);
+    } catch (err) {
+      console.error("Error exporting the HTML player:", err);
+      setSaveStatus('Could not export the HTML player.');
+    }
+  };
+
+  const handleExportProjectBundle = async () => {
+    try {
+      const project = await buildCurrentProject();
+      if (project) downloadBlob(await exportProjectBundle(project), bundleFileName(project));
+    } catch (err) {
+      console.error("Error exporting project bundle:", err);
+      setSaveStatus('Could not export the project bundle.');
+    }
+  };
+
+  const handleOpenProject = (project: Project) => {
+    const file = new File([project.audio], project.audioName, { type: project.audio.type });
+    setAudioFile(file);
+    setAudioSrc(URL.createObjectURL(file));
+    setTextInput(project.transcript);
+    setLanguage(project.language ?? AUTO_LANGUAGE);
+    setDirection(project.direction ?? 'auto');
+    setTranslation(project.translation ?? null);
+    setSpeakers(project.speakers ?? []);
+    setBookmarks(project.bookmarks ?? []);
+    timingHistory.restore(project.timings, project.history.past, project.history.future);
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setSaveStatus(null);
+    setImportedTimings(null);
+    setImportedFileName(null);
+    setTranscriptionDraft(null);
+    setReconciliationIssues([]);
+    setTimingIssues([]);
+    setError(null);
+    setActiveWordIndex(-1);
+    playback.setLoopRange(null);
+    setAppState('ready');
+  };
+
   const handleResetApp = () => {
-    if (audioSrc) URL.revokeObjectURL(audioSrc);
     setAppState('input');
     setAudioFile(null);
     setTextInput('');
     setAudioSrc(null);
-    setWordTimings([]);
-    setViewElements([]);
+    timingHistory.reset([]);
+    setReconciliationIssues([]);
+    setTimingIssues([]);
+    setProjectId(null);
+    setProjectName('');
+    setSaveStatus(null);
+    setIsEditing(false);
+    setIsReviewing(false);
+    setIsPracticing(false);
+    setShowRecorder(false);
+    setSelectedWordIndex(-1);
+    setLanguage(AUTO_LANGUAGE);
+    setDirection('auto');
+    setTranslation(null);
+    setShowTranslationPanel(false);
+    setSpeakers([]);
+    setShowSpeakerPanel(false);
+    setBookmarks([]);
+    setShowOutline(false);
+    search.clear();
+    setImportedTimings(null);
+    setImportedFileName(null);
+    setTranscriptionDraft(null);
     setError(null);
     setIsPlaying(false);
     setActiveWordIndex(-1);
+    playback.setLoopRange(null);
   };
   
   const handleTimeUpdate = () => {
     if (!audioRef.current) return;
     const currentTime = audioRef.current.currentTime;
-    const currentWordIndex = wordTimings.findIndex(
-      (timing) => currentTime >= timing.start && currentTime < timing.end
-    );
+    const currentWordIndex = timeline.activeWordAt(currentTime);
     if(currentWordIndex !== -1) {
         setActiveWordIndex(currentWordIndex);
     }
+    playback.handleTime(currentTime, currentWordIndex);
   };
 
+  // `timeupdate` only fires a few times a second, so follow playback every animation frame.
+  const timeUpdateRef = useRef(handleTimeUpdate);
+  timeUpdateRef.current = handleTimeUpdate;
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      timeUpdateRef.current();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
   const handlePlaybackEnd = () => {
     setIsPlaying(false);
     setActiveWordIndex(-1);
@@ -144,77 +489,256 @@ const App: React.FC = () => {
     setActiveWordIndex(-1);
   };
 
+  const handleWordClick = (index: number) => {
+    setSelectedWordIndex(index);
+    if (audioRef.current && wordTimings[index]) {
+      audioRef.current.currentTime = wordTimings[index].start;
+    }
+  };
+
+  // Manual edits go through here so retimed words count as confirmed.
+  const handleTimingsChange = (next: WordTiming[]) => {
+    timingHistory.set(confirmEditedTimings(wordTimings, next));
+  };
+
+  // Speaker changes go through the timing history, so they can be undone like edits.
+  const handleAssignSpeaker = (range: WordRange, speakerId: string | null) => {
+    timingHistory.set(assignSpeaker(wordTimings, range, speakerId));
+  };
+
+  const handleRemoveSpeaker = (speakerId: string) => {
+    timingHistory.set(removeSpeaker(wordTimings, speakerId));
+    setSpeakers(speakerList.filter(speaker => speaker.id !== speakerId));
+  };
+
+  const handleStartReview = () => {
+    setIsEditing(true);
+    setIsReviewing(true);
+    const first = qualityReport?.lowWords[0];
+    if (first !== undefined) handleWordClick(first);
+  };
+
+  // Accepts the current word's timing as it is and moves on to the next flagged word.
+  const handleConfirmWord = (index: number) => {
+    timingHistory.set(wordTimings.map((timing, i) => (i === index ? { ...timing, confidence: 1 } : timing)));
+    const next = qualityReport?.lowWords.find(i => i > index);
+    if (next !== undefined) handleWordClick(next);
+  };
+
+  const handleTogglePractice = () => {
+    if (isPracticing) {
+      readAlong.stop();
+    } else {
+      audioRef.current?.pause();
+      setIsEditing(false);
+      setIsReviewing(false);
+    }
+    setIsPracticing(!isPracticing);
+  };
+
+  // Reading mode: click seeks to the word, Shift+click loops from the previously clicked word.
+  // A plain click outside the loop ends it, or the loop would jump straight back.
+  const handleReaderWordClick = (index: number, event: React.MouseEvent) => {
+    const anchor = lastClickedWordRef.current;
+    const loop = playback.loopRange;
+    if (event.shiftKey && anchor >= 0 && anchor !== index) {
+      playback.setLoopRange({ start: Math.min(anchor, index), end: Math.max(anchor, index) });
+    } else if (loop && (index < loop.start || index > loop.end)) {
+      playback.setLoopRange(null);
+    }
+    lastClickedWordRef.current = index;
+    playback.seekToWord(index);
+    setActiveWordIndex(index);
+  };
+
+  // Outline entries, bookmarks and search hits all take the reader (and the audio) to a word.
+  const handleJumpToWord = (index: number) => {
+    playback.seekToWord(index);
+    setActiveWordIndex(index);
+  };
+
+  const handleAddBookmark = (range: WordRange) => {
+    setBookmarks(current => addBookmark(current, createBookmark(range, wordTimings)));
+  };
+
+  const handleUpdateBookmark = (bookmark: Bookmark) => {
+    setBookmarks(current => current.map(b => (b.id === bookmark.id ? bookmark : b)));
+  };
+
+  const handleRemoveBookmark = (id: string) => {
+    setBookmarks(current => current.filter(b => b.id !== id));
+  };
+
+  const handleLoopCurrentSentence = () => {
+    const range = sentenceRanges[findRangeIndex(sentenceRanges, Math.max(0, activeWordIndex))];
+    if (range) {
+      playback.setLoopRange(range);
+      playback.seekToWord(range.start);
+    }
+  };
+
+  // Keyboard shortcuts for the reader. Always reads the latest render's handlers.
+  const shortcutHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (appState !== 'ready' || isExporting || showShortcuts || event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+    if (target && (target.closest('input, textarea, select, [contenteditable="true"]') || (target.tagName === 'BUTTON' && event.key === ' '))) return;
+    const audioEl = audioRef.current;
+    if (!audioEl) return;
+    const rateIndex = PLAYBACK_RATES.indexOf(playback.rate);
+    switch (event.key) {
+      case ' ':
+        togglePlayPause();
+        break;
+      case 'ArrowLeft':
+        playback.seekToTime(audioEl.currentTime - 5);
+        break;
+      case 'ArrowRight':
+        playback.seekToTime(audioEl.currentTime + 5);
+        break;
+      case 'Home':
+        playback.seekToTime(0);
+        break;
+      case 'End':
+        if (Number.isFinite(audioEl.duration)) playback.seekToTime(audioEl.duration);
+        break;
+      case 'p': case 'P':
+        playback.previousSentence();
+        break;
+      case 'n': case 'N':
+        playback.nextSentence();
+        break;
+      case '[':
+        playback.setRate(PLAYBACK_RATES[Math.max(0, rateIndex - 1)]);
+        break;
+      case ']':
+        playback.setRate(PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, rateIndex + 1)]);
+        break;
+      case 'l': case 'L':
+        if (playback.loopRange) playback.setLoopRange(null);
+        else handleLoopCurrentSentence();
+        break;
+      case 'r': case 'R':
+        playback.setRepeatCount(REPEAT_COUNTS[(REPEAT_COUNTS.indexOf(playback.repeatCount) + 1) % REPEAT_COUNTS.length]);
+        break;
+      case 'Escape':
+        playback.setLoopRange(null);
+        break;
+      case '/':
+        searchInputRef.current?.focus();
+        break;
+      case '+': case '=':
+        handleReaderSettingsChange({ ...readerSettings, fontSize: Math.min(READER_FONT_SIZE.max, readerSettings.fontSize + READER_FONT_SIZE.step) });
+        break;
+      case '-':
+        handleReaderSettingsChange({ ...readerSettings, fontSize: Math.max(READER_FONT_SIZE.min, readerSettings.fontSize - READER_FONT_SIZE.step) });
+        break;
+      case '?':
+        setShowShortcuts(true);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => shortcutHandlerRef.current(event);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  // The transcript text between a word and the next one, so merges keep the original spacing.
+  const getWordSeparator = (index: number) => {
+    const position = viewElements.findIndex(el => el.type === 'word' && el.originalIndex === index);
+    const next = viewElements[position + 1];
+    return next?.type === 'whitespace' ? next.content : ' ';
+  };
+
   const handleExportVideo = async () => {
     if (!audioRef.current || !wordTimings.length || isExporting) return;
     setIsExporting(true);
 
     const audioEl = audioRef.current;
+    const settings = exportSettings;
+
+    // Fonts and the background image must be ready before the first frame is drawn.
+    await ensureFontLoaded(settings);
+    let backgroundImage: HTMLImageElement | null = null;
+    if (settings.backgroundImage) {
+        try {
+            backgroundImage = await loadImage(settings.backgroundImage);
+        } catch (err) {
+            console.error(err);
+        }
+    }
+
+    const container = getContainer(settings.container);
+    const fileName = `${(settings.fileName.trim() || 'synced-video').replace(/\.(webm|mp4)$/i, '')}.${container.extension}`;
+    const support = await detectExportSupport(settings);
+    const recorderMimeType = findRecorderMimeType(settings.container);
+
+    if (!support[settings.container].offline && !recorderMimeType) {
+        const alternative = CONTAINERS.find(c => c.id !== settings.container && (support[c.id].offline || support[c.id].realtime));
+        const unsupported = new UnsupportedExportConfigError(
+            `${container.label} export is not supported by this browser at ${settings.width}×${settings.height}.` +
+            (alternative ? ` Choose ${alternative.label} instead.` : ' Try a lower resolution or another browser.'),
+        );
+        setError(unsupported.message);
+        setIsExporting(false);
+        return;
+    }
+
+    // Preferred path: render frames at exact timestamps and encode faster than real time.
+    if (support[settings.container].offline && audioFile) {
+        audioEl.pause();
+        setIsPlaying(false);
+        const controller = new AbortController();
+        exportAbortRef.current = controller;
+        setExportProgress(0);
+        setError(null);
+        try {
+            const blob = await renderVideoOffline({
+                audio: audioFile,
+                viewElements,
+                wordTimings,
+                settings,
+                backgroundImage,
+                direction: resolvedDirection,
+                translation,
+                speakers: speakerList,
+                onProgress: fraction => setExportProgress(Math.floor(fraction * 100)),
+                signal: controller.signal,
+            });
+            downloadBlob(blob, fileName);
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                console.error("Error rendering video:", err);
+                setError(err instanceof ExportError
+                    ? err.message
+                    : `Video export failed: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        } finally {
+            exportAbortRef.current = null;
+            setExportProgress(null);
+            setIsExporting(false);
+        }
+        return;
+    }
 
+    // Fallback: play the audio in real time and record the canvas with MediaRecorder.
     const exportProcess = () => {
         // 2. Setup Canvas
         const canvas = document.createElement('canvas');
-        const FONT_SIZE = 48;
-        const PADDING = 60;
-        const LINE_HEIGHT = FONT_SIZE * 1.8;
-        canvas.width = 1920;
-        canvas.height = 1080;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
+        let renderer: VideoRenderer;
+        try {
+            renderer = createVideoRenderer(canvas, viewElements, wordTimings, settings, backgroundImage, resolvedDirection, translation, speakerList);
+        } catch (err) {
+            console.error(err);
             setIsExporting(false);
             return;
         }
 
-        // Set RTL properties for Arabic text
-        ctx.direction = 'rtl';
-        ctx.textAlign = 'right';
-        ctx.font = `500 ${FONT_SIZE}px 'Noto Naskh Arabic', serif`;
-        
-        interface CanvasLayout {
-            word: string;
-            x: number;
-            y: number;
-            width: number;
-            originalIndex: number;
-        }
-        const wordLayouts: CanvasLayout[] = [];
-        let currentX = canvas.width - PADDING; // Start from the right edge
-        let currentY = PADDING + FONT_SIZE;
-
-        viewElements.forEach(element => {
-            if (element.type === 'word') {
-                const word = element.word;
-                const metrics = ctx.measureText(word);
-                
-                if (currentX - metrics.width < PADDING) { // Check left boundary
-                    currentY += LINE_HEIGHT;
-                    currentX = canvas.width - PADDING; // Reset to right edge
-                }
-                
-                // x is the right edge of the word due to textAlign='right'
-                wordLayouts.push({ word, x: currentX, y: currentY, width: metrics.width, originalIndex: element.originalIndex });
-                currentX -= metrics.width; // Move cursor left
-            } else { // whitespace
-                for (const char of element.content) {
-                    if (char === '\n') {
-                        currentY += LINE_HEIGHT;
-                        currentX = canvas.width - PADDING; // Reset to right edge
-                    } else {
-                        const spaceMetrics = ctx.measureText(char);
-                        if (currentX - spaceMetrics.width < PADDING) { // Check left boundary
-                            currentY += LINE_HEIGHT;
-                            currentX = canvas.width - PADDING;
-                        } else {
-                            currentX -= spaceMetrics.width; // Move cursor left
-                        }
-                    }
-                }
-            }
-        });
-        
-        const lastLineY = wordLayouts.length > 0 ? Math.max(...wordLayouts.map(l => l.y)) : 0;
-        const totalTextHeight = lastLineY + PADDING;
-
-
         // 3. Setup Audio & Video Streams for recording
         const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
         const sourceNode = audioCtx.createMediaElementSource(audioEl);
@@ -222,14 +746,14 @@ const App: React.FC = () => {
         sourceNode.connect(dest);
         
         const audioTrack = dest.stream.getAudioTracks()[0];
-        const videoStream = canvas.captureStream(30);
+        const videoStream = canvas.captureStream(settings.fps);
         const videoTrack = videoStream.getVideoTracks()[0];
         
         const combinedStream = new MediaStream([videoTrack, audioTrack]);
         const recorder = new MediaRecorder(combinedStream, { 
-          mimeType: 'video/webm; codecs=vp9,opus',
-          audioBitsPerSecond: 128000,
-          videoBitsPerSecond: 2500000,
+          mimeType: recorderMimeType!,
+          audioBitsPerSecond: settings.audioBitrate,
+          videoBitsPerSecond: settings.videoBitrate,
         });
         
         const chunks: Blob[] = [];
@@ -242,16 +766,7 @@ const App: React.FC = () => {
         recorder.onstop = () => {
             cancelAnimationFrame(animationFrameId); // Stop the rendering loop
 
-            // Create and download the video file
-            const blob = new Blob(chunks, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'synced-video.webm';
-            document.body.appendChild(a);
-            a.click();
-            window.URL.revokeObjectURL(url);
-            document.body.removeChild(a);
+            downloadBlob(new Blob(chunks, { type: container.mimeType }), fileName);
             
             // Cleanup
             setIsExporting(false);
@@ -261,61 +776,11 @@ const App: React.FC = () => {
         };
 
         // 4. The Rendering Loop - driven by audio's current time
-        let currentScrollY = 0;
-        let targetScrollY = 0;
-        const LERP_FACTOR = 0.08; // Smoothing factor for camera pan
-
-        const renderFrame = () => {
-            const currentTime = audioEl.currentTime;
-            const activeIndex = wordTimings.findIndex(t => currentTime >= t.start && currentTime < t.end);
-
-            // Background
-            ctx.fillStyle = '#f9fafb'; // gray-50
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-            
-            ctx.save(); // Save context state before translation
-
-            // Calculate vertical scroll to center the active line
-            if (totalTextHeight > canvas.height) {
-                const activeLayout = wordLayouts.find(l => l.originalIndex === activeIndex);
-                if (activeLayout) {
-                    targetScrollY = activeLayout.y - (canvas.height / 2);
-                }
-                // Clamp the target to prevent overscrolling
-                const maxScrollTop = totalTextHeight - canvas.height;
-                targetScrollY = Math.max(0, Math.min(targetScrollY, maxScrollTop));
-
-                // Smoothly interpolate the current scroll position towards the target
-                currentScrollY += (targetScrollY - currentScrollY) * LERP_FACTOR;
-                // Snap to target if very close to prevent endless tiny adjustments
-                if (Math.abs(targetScrollY - currentScrollY) < 0.5) {
-                    currentScrollY = targetScrollY;
-                }
-
-                ctx.translate(0, -currentScrollY);
-            }
-            
-            // Set context properties for each frame to be safe
-            ctx.direction = 'rtl';
-            ctx.textAlign = 'right';
-            ctx.font = `500 ${FONT_SIZE}px 'Noto Naskh Arabic', serif`;
-
-            // Draw words
-            wordLayouts.forEach((layout) => {
-                if (layout.originalIndex === activeIndex) {
-                    // Highlight
-                    ctx.fillStyle = 'rgba(253, 224, 71, 0.6)'; // yellow-300/60
-                    // For RTL, rect x is layout.x - layout.width
-                    ctx.fillRect(layout.x - layout.width - 5, layout.y - FONT_SIZE - 5, layout.width + 10, LINE_HEIGHT);
-                    ctx.fillStyle = '#111827'; // gray-900 for active text
-                } else {
-                    ctx.fillStyle = '#374151'; // gray-700 for inactive text
-                }
-                ctx.fillText(layout.word, layout.x, layout.y);
-            });
-
-            ctx.restore(); // Restore context state to prevent affecting next frame's background
-
+        let lastTimestamp: number | null = null;
+        const renderFrame = (timestamp: number) => {
+            const deltaSeconds = lastTimestamp === null ? 0 : (timestamp - lastTimestamp) / 1000;
+            lastTimestamp = timestamp;
+            renderer.renderFrame(audioEl.currentTime, deltaSeconds);
             animationFrameId = requestAnimationFrame(renderFrame);
         };
 
@@ -353,35 +818,203 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  const handleReaderSettingsChange = (settings: ReaderSettings) => {
+    setReaderSettings(settings);
+    saveReaderSettings(settings);
+  };
+
 
   const renderContent = () => {
     switch (appState) {
       case 'loading':
         return (
-          <div className="flex flex-col items-center justify-center h-64 text-center">
+          <div className="flex flex-col items-center justify-center min-h-64 text-center">
             <LoadingIcon size={64}/>
             <p className="mt-4 text-gray-700 text-lg">Synchronizing your audio and text...</p>
             <p className="text-gray-500 text-sm">This may take a moment.</p>
+            {chunkJob && <ChunkProgress job={chunkJob} />}
+            <button
+              onClick={handleCancelAlignment}
+              className="mt-6 px-4 py-2 rounded-full bg-gray-200/50 hover:bg-gray-300/50 text-gray-700 transition-colors duration-200 text-sm"
+            >
+              Cancel
+            </button>
           </div>
         );
       case 'ready':
         return (
           <div className="flex flex-col h-[75vh]">
-            <div className="flex-grow overflow-y-auto pr-2">
-              <TextViewer viewElements={viewElements} activeWordIndex={activeWordIndex} />
+            <ReconciliationReport
+              issues={reconciliationIssues}
+              onSelectWord={index => { setIsEditing(true); handleWordClick(index); }}
+            />
+            <TimingIssuesReport
+              issues={timingIssues}
+              onSelectWord={index => { setIsEditing(true); handleWordClick(index); }}
+            />
+            {!isReviewing && (
+              <QualityReport
+                report={qualityReport}
+                onReview={handleStartReview}
+                onSelectWord={index => { setIsEditing(true); handleWordClick(index); }}
+              />
+            )}
+            {isEditing && isReviewing && (
+              <ReviewBar
+                timings={wordTimings}
+                lowWords={qualityReport?.lowWords ?? []}
+                currentIndex={selectedWordIndex}
+                onStep={handleWordClick}
+                onConfirm={handleConfirmWord}
+                onClose={() => setIsReviewing(false)}
+              />
+            )}
+            {isPracticing && (
+              <PracticeBar readAlong={readAlong} wordCount={wordTimings.length} onClose={handleTogglePractice} />
+            )}
+            {!isEditing && !isPracticing && (
+              <div className="flex-shrink-0 flex flex-wrap justify-end items-center gap-2 mb-2 text-sm text-gray-600">
+                <SearchBar search={search} inputRef={searchInputRef} onJump={hit => handleJumpToWord(hit.start)} />
+                <button
+                  onClick={() => setShowOutline(!showOutline)}
+                  className="px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-50"
+                  aria-pressed={showOutline}
+                >
+                  Outline
+                </button>
+                <button
+                  onClick={() => setShowReaderSettings(!showReaderSettings)}
+                  className="px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-50"
+                  aria-expanded={showReaderSettings}
+                >
+                  Display
+                </button>
+                <button
+                  onClick={() => setShowShortcuts(true)}
+                  className="px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-50"
+                  aria-label="Keyboard shortcuts"
+                  title="Keyboard shortcuts (?)"
+                >
+                  ?
+                </button>
+                <LanguagePicker
+                  language={language}
+                  direction={direction}
+                  detectedLanguage={detectedLanguage}
+                  onLanguageChange={setLanguage}
+                  onDirectionChange={setDirection}
+                />
+                <label htmlFor="highlight-mode">Highlight</label>
+                <select
+                  id="highlight-mode"
+                  value={highlightMode}
+                  onChange={e => setHighlightMode(e.target.value as HighlightMode)}
+                  className="px-2 py-1 rounded border border-gray-300 bg-white focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                >
+                  {HIGHLIGHT_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                </select>
+                {translation && (
+                  <select
+                    value={parallelLayout}
+                    onChange={e => setParallelLayout(e.target.value as ParallelLayout)}
+                    className="px-2 py-1 rounded border border-gray-300 bg-white focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                    aria-label="Translation layout"
+                  >
+                    <option value="side-by-side">Side by side</option>
+                    <option value="interlinear">Interlinear</option>
+                  </select>
+                )}
+              </div>
+            )}
+            {showReaderSettings && !isEditing && !isPracticing && (
+              <div className="flex-shrink-0 mb-3 rounded-lg border border-gray-200 bg-white p-4">
+                <ReaderSettingsPanel settings={readerSettings} onChange={handleReaderSettingsChange} />
+              </div>
+            )}
+            <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+            {showShortcuts && <KeyboardShortcuts onClose={() => setShowShortcuts(false)} />}
+            <div className="flex-grow min-h-0 flex gap-4">
+              {showOutline && !isEditing && !isPracticing && (
+                <OutlineSidebar
+                  outline={outline}
+                  bookmarks={visibleBookmarks}
+                  timings={wordTimings}
+                  activeWordIndex={activeWordIndex}
+                  selection={playback.loopRange}
+                  onSeek={handleJumpToWord}
+                  onAddBookmark={handleAddBookmark}
+                  onUpdateBookmark={handleUpdateBookmark}
+                  onRemoveBookmark={handleRemoveBookmark}
+                />
+              )}
+              <div className="flex-grow overflow-y-auto pr-2">
+                <TextViewer
+                  viewElements={viewElements}
+                  activeWordIndex={isPracticing ? readAlong.position - 1 : activeWordIndex}
+                  selectedWordIndex={isEditing ? selectedWordIndex : -1}
+                  rangeHighlight={playback.loopRange}
+                  direction={resolvedDirection}
+                  language={resolvedLanguage}
+                  highlightMode={isEditing ? 'word' : isPracticing ? 'progress' : highlightMode}
+                  activeSegment={isEditing || isPracticing ? null : getActiveSegment(segments, highlightMode, activeWordIndex)}
+                  parallelText={parallelText}
+                  reviewThreshold={isEditing && isReviewing ? LOW_CONFIDENCE : null}
+                  skippedWords={isPracticing ? readAlong.skipped : null}
+                  speakers={speakerList}
+                  searchHits={isEditing || isPracticing ? null : search.hits}
+                  currentSearchHit={isEditing || isPracticing ? null : search.currentHit}
+                  bookmarks={visibleBookmarks}
+                  readerSettings={readerSettings}
+                  onWordClick={isEditing ? handleWordClick : isPracticing ? readAlong.restartFrom : handleReaderWordClick}
+                  onSelectRange={isEditing || isPracticing ? undefined : playback.setLoopRange}
+                />
+              </div>
             </div>
+            {isEditing && audioFile && (
+              <div className="flex-shrink-0">
+                <TimingEditor
+                  audio={audioFile}
+                  audioRef={audioRef}
+                  timings={wordTimings}
+                  selectedIndex={selectedWordIndex}
+                  onSelect={setSelectedWordIndex}
+                  onChange={handleTimingsChange}
+                  getSeparator={getWordSeparator}
+                  onUndo={timingHistory.undo}
+                  onRedo={timingHistory.redo}
+                  canUndo={timingHistory.canUndo}
+                  canRedo={timingHistory.canRedo}
+                />
+              </div>
+            )}
             {audioSrc && (
               <div className="flex-shrink-0">
                 <audio
                   ref={audioRef}
                   src={audioSrc}
                   onTimeUpdate={handleTimeUpdate}
+                  onLoadedMetadata={playback.applyRate}
                   onEnded={handlePlaybackEnd}
                   onPlay={() => setIsPlaying(true)}
                   onPause={() => setIsPlaying(false)}
                   className="hidden"
                 />
-                <div className="mt-8 flex items-center justify-center gap-4 md:gap-6">
+                <div className="mt-6">
+                  <Scrubber audioRef={audioRef} wordTimings={wordTimings} loopRange={playback.loopRange} onSeek={playback.seekToTime} />
+                </div>
+                <div className="mt-3">
+                  <PlaybackToolbar controls={playback} onLoopCurrentSentence={handleLoopCurrentSentence} disabled={isExporting} />
+                </div>
+                <div className="mt-6 flex items-center justify-center gap-4 md:gap-6">
                    <button
                       onClick={handleStop}
                       disabled={isExporting}
@@ -395,20 +1028,133 @@ const App: React.FC = () => {
                       disabled={isExporting}
                       className="p-5 w-20 h-20 flex items-center justify-center rounded-full bg-yellow-400 hover:bg-yellow-500 text-black transition-colors duration-200 shadow-lg shadow-yellow-500/30 focus:outline-none focus:ring-2 focus:ring-yellow-300 focus:ring-offset-2 focus:ring-offset-white disabled:opacity-50 disabled:cursor-not-allowed"
                       aria-label={isPlaying ? 'Pause' : 'Play'}
+                      aria-keyshortcuts="Space"
                     >
                       {isPlaying ? <PauseIcon /> : <PlayIcon />}
                     </button>
                     <button 
-                      onClick={handleExportVideo}
+                      onClick={() => setShowExportSettings(!showExportSettings)}
                       disabled={isExporting}
                       className="p-4 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2 focus:ring-offset-white disabled:opacity-50 disabled:cursor-not-allowed"
                       aria-label="Export Video"
+                      aria-expanded={showExportSettings}
                     >
                       {isExporting ? <LoadingIcon size={24} /> : <ExportIcon />}
                     </button>
                 </div>
-                 {isExporting && <p className="text-center text-yellow-600 mt-4 animate-pulse">Exporting video, please wait...</p>}
-                 <div className="text-center mt-6">
+                 {showExportSettings && (
+                   <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4">
+                     <ExportSettingsPanel
+                       settings={exportSettings}
+                       onChange={handleExportSettingsChange}
+                       viewElements={viewElements}
+                       wordTimings={wordTimings}
+                       audioRef={audioRef}
+                       direction={resolvedDirection}
+                       translation={translation}
+                       speakers={speakerList}
+                     />
+                     <div className="mt-4 text-center">
+                       <button
+                         onClick={handleExportVideo}
+                         disabled={isExporting}
+                         className="px-6 py-2 rounded-full bg-yellow-400 hover:bg-yellow-500 text-black font-semibold transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                       >
+                         Export Video
+                       </button>
+                     </div>
+                   </div>
+                 )}
+                 {isExporting && exportProgress !== null && (
+                   <div className="mt-4 flex items-center justify-center gap-3">
+                     <div className="w-64 h-2 rounded-full bg-gray-200 overflow-hidden" role="progressbar" aria-valuenow={exportProgress} aria-valuemin={0} aria-valuemax={100} aria-label="Video export progress">
+                       <div className="h-full bg-yellow-400 transition-all duration-200" style={{ width: `${exportProgress}%` }} />
+                     </div>
+                     <span className="text-sm text-gray-600 tabular-nums">{exportProgress}%</span>
+                     <button onClick={handleCancelExport} className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm">Cancel</button>
+                   </div>
+                 )}
+                 {isExporting && exportProgress === null && <p className="text-center text-yellow-600 mt-4 animate-pulse">Exporting video, please wait...</p>}
+                 {error && !isExporting && <p className="text-center text-red-700 mt-4">{error}</p>}
+                 <div className="mt-6 flex flex-wrap items-center justify-center gap-2 text-sm">
+                    <span className="text-gray-600">Download timings:</span>
+                    {TIMING_FORMATS.map(format => (
+                      <button
+                        key={format.id}
+                        onClick={() => handleExportTimings(format.id)}
+                        className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors duration-200"
+                        aria-label={`Download timings as ${format.label}`}
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                 </div>
+                 <div className="mt-6 flex flex-wrap items-center justify-center gap-2 text-sm">
+                    <input
+                      value={projectName}
+                      onChange={e => setProjectName(e.target.value)}
+                      placeholder={audioFile?.name.replace(/\.[^.]+$/, '') ?? 'Project name'}
+                      className="px-3 py-1 rounded-full border border-gray-300 focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                      aria-label="Project name"
+                      dir="auto"
+                    />
+                    <button
+                      onClick={handleSaveProject}
+                      className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors duration-200"
+                    >
+                      {projectId ? 'Save Project' : 'Save as Project'}
+                    </button>
+                    <button
+                      onClick={handleExportProjectBundle}
+                      className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors duration-200"
+                    >
+                      Export Bundle
+                    </button>
+                    <button
+                      onClick={handleExportPlayer}
+                      className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors duration-200"
+                      title="A single HTML file that plays offline or in an iframe. URL options: ?t=90&theme=dark&autoplay=1"
+                    >
+                      Export HTML Player
+                    </button>
+                    {saveStatus && <span className="text-gray-500">{saveStatus}</span>}
+                 </div>
+                 <div className="text-center mt-6 flex items-center justify-center gap-2">
+                    <button
+                        onClick={() => { setIsEditing(!isEditing); setIsReviewing(false); setIsPracticing(false); readAlong.stop(); }}
+                        disabled={isExporting}
+                        className="px-4 py-2 rounded-full bg-gray-200/50 hover:bg-gray-300/50 text-gray-700 transition-colors duration-200 text-sm disabled:opacity-50"
+                        aria-pressed={isEditing}
+                        >
+                        {isEditing ? 'Done Editing' : 'Edit Timings'}
+                    </button>
+                    <button
+                        onClick={() => setShowTranslationPanel(!showTranslationPanel)}
+                        disabled={isExporting}
+                        className="px-4 py-2 rounded-full bg-gray-200/50 hover:bg-gray-300/50 text-gray-700 transition-colors duration-200 text-sm disabled:opacity-50"
+                        aria-expanded={showTranslationPanel}
+                        >
+                        {translation ? 'Edit Translation' : 'Add Translation'}
+                    </button>
+                    <button
+                        onClick={() => setShowSpeakerPanel(!showSpeakerPanel)}
+                        disabled={isExporting}
+                        className="px-4 py-2 rounded-full bg-gray-200/50 hover:bg-gray-300/50 text-gray-700 transition-colors duration-200 text-sm disabled:opacity-50"
+                        aria-expanded={showSpeakerPanel}
+                        >
+                        Speakers
+                    </button>
+                    {isReadAlongSupported() && (
+                      <button
+                          onClick={handleTogglePractice}
+                          disabled={isExporting}
+                          className="px-4 py-2 rounded-full bg-gray-200/50 hover:bg-gray-300/50 text-gray-700 transition-colors duration-200 text-sm disabled:opacity-50"
+                          aria-pressed={isPracticing}
+                          title="Read the text aloud and the app follows along, noting skipped words"
+                          >
+                          {isPracticing ? 'Stop Practice' : 'Practice Reading'}
+                      </button>
+                    )}
                     <button 
                         onClick={handleResetApp}
                         disabled={isExporting}
@@ -418,6 +1164,28 @@ const App: React.FC = () => {
                         Start Over
                     </button>
                  </div>
+                 {showTranslationPanel && (
+                   <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4">
+                     <TranslationPanel
+                       translation={translation}
+                       sentences={segments.sentence}
+                       sourceLanguage={resolvedLanguage}
+                       onChange={setTranslation}
+                     />
+                   </div>
+                 )}
+                 {showSpeakerPanel && (
+                   <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4">
+                     <SpeakerPanel
+                       speakers={speakerList}
+                       timings={wordTimings}
+                       selection={playback.loopRange}
+                       onSpeakersChange={setSpeakers}
+                       onAssign={handleAssignSpeaker}
+                       onRemove={handleRemoveSpeaker}
+                     />
+                   </div>
+                 )}
               </div>
             )}
           </div>
@@ -436,6 +1204,20 @@ const App: React.FC = () => {
                         onChange={handleFileChange}
                         className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-yellow-400/20 file:text-yellow-800 hover:file:bg-yellow-400/30 transition-colors duration-200"
                     />
+                    {isRecordingSupported() && (
+                      <button
+                          onClick={() => setShowRecorder(!showRecorder)}
+                          className="mt-2 text-sm text-yellow-800 hover:underline"
+                          aria-expanded={showRecorder}
+                      >
+                          {showRecorder ? 'Cancel recording' : '…or record with your microphone'}
+                      </button>
+                    )}
+                    {showRecorder && (
+                      <div className="mt-2">
+                        <AudioRecorder onUse={handleRecordingReady} />
+                      </div>
+                    )}
                 </div>
                 {audioSrc && <audio controls src={audioSrc} className="w-full"></audio>}
                 <div>
@@ -446,9 +1228,81 @@ const App: React.FC = () => {
                         value={textInput}
                         onChange={(e) => { setTextInput(e.target.value); setError(null); }}
                         placeholder="Paste the exact text from your audio file here..."
+                        dir={resolvedDirection}
+                        lang={resolvedLanguage}
                         className="w-full p-4 rounded-lg bg-white border border-gray-300 focus:ring-2 focus:ring-yellow-500 focus:outline-none transition-colors duration-200 text-black placeholder-gray-400"
                     />
+                    {transcriptionProgress ? (
+                      <div className="mt-2 flex items-center gap-3 text-sm text-gray-600">
+                        <LoadingIcon size={20} />
+                        <span>Transcribing{transcriptionProgress.total > 1 ? ` part ${Math.min(transcriptionProgress.done + 1, transcriptionProgress.total)} of ${transcriptionProgress.total}` : ''}…</span>
+                        <button onClick={() => transcriptionAbortRef.current?.abort()} className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800">Cancel</button>
+                      </div>
+                    ) : transcriptionDraft ? (
+                      <p className="mt-2 text-sm text-gray-600 bg-yellow-50 border border-yellow-300 rounded-lg p-3">
+                        Draft transcribed by {transcriptionDraft.source}. Correct it above: unchanged words keep their timings, and edited words are re-timed from their neighbours.{' '}
+                        <button onClick={() => setTranscriptionDraft(null)} className="text-yellow-800 hover:underline">Discard timings and align from scratch</button>
+                      </p>
+                    ) : audioFile && !textInput.trim() && !importedTimings && (
+                      <div className="mt-2 flex items-center gap-3 text-sm text-gray-600">
+                        <span>No script?</span>
+                        {canTranscribe(getAligner(alignerId)) ? (
+                          <button onClick={handleTranscribe} className="px-3 py-1 rounded-full bg-yellow-400/20 hover:bg-yellow-400/30 text-yellow-800 font-semibold">
+                            Transcribe the audio with {getAligner(alignerId).label}
+                          </button>
+                        ) : (
+                          <span>Choose a backend that can transcribe (e.g. Gemini) to get a draft automatically.</span>
+                        )}
+                      </div>
+                    )}
+                    <div className="mt-2">
+                      <LanguagePicker
+                        language={language}
+                        direction={direction}
+                        detectedLanguage={detectedLanguage}
+                        onLanguageChange={setLanguage}
+                        onDirectionChange={setDirection}
+                      />
+                    </div>
+                </div>
+                <div>
+                    <span className="block text-sm font-medium text-gray-700 mb-2">3. Choose Alignment Backend</span>
+                    {transcriptionDraft && !importedTimings ? (
+                      <div className="p-4 rounded-lg border border-yellow-500 bg-yellow-50 text-sm text-gray-700">
+                        Using the {transcriptionDraft.timings.length} word timings from the transcription — no separate alignment needed.
+                      </div>
+                    ) : importedTimings ? (
+                      <div className="flex items-center justify-between gap-3 p-4 rounded-lg border border-yellow-500 bg-yellow-50 text-sm text-gray-700">
+                        <span>Using {importedTimings.length} imported word timings from <strong>{importedFileName}</strong> — no alignment needed.</span>
+                        <button onClick={handleClearImportedTimings} className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800">Clear</button>
+                      </div>
+                    ) : (
+                      <AlignerPicker value={alignerId} onChange={setAlignerId} />
+                    )}
+                    {!importedTimings && !transcriptionDraft && (
+                      <div className="mt-3">
+                        <PreprocessPanel key={audioSrc ?? ''} settings={preprocessing} onChange={handlePreprocessingChange} />
+                      </div>
+                    )}
+                    {!importedTimings && (
+                      <div className="mt-3">
+                        <UsagePanel limits={usageLimits} onLimitsChange={handleUsageLimitsChange} />
+                      </div>
+                    )}
+                    <label htmlFor="timings-upload" className="block text-sm text-gray-600 mt-3 mb-1">…or load existing timings (WebVTT, SRT, LRC or JSON)</label>
+                    <input
+                        id="timings-upload"
+                        type="file"
+                        accept=".vtt,.srt,.lrc,.json,text/vtt,application/json"
+                        onChange={handleTimingsFileChange}
+                        className="block w-full text-sm text-gray-500 file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:bg-gray-200 file:text-gray-800 hover:file:bg-gray-300 transition-colors duration-200"
+                    />
                 </div>
+                {resumableJob && (
+                    <p className="text-sm text-gray-600 bg-yellow-50 border border-yellow-300 rounded-lg p-3">
+                        {resumableJob.chunks.filter(c => c.status === 'done').length} of {resumableJob.chunks.length} parts of this file were already aligned. Synchronizing will resume from where the previous run stopped.
+                    </p>
+                )}
                 {error && <div className="text-center text-red-700 bg-red-100 p-3 rounded-lg"><p>{error}</p></div>}
                 <button 
                     onClick={handleSubmit} 
@@ -457,6 +1311,7 @@ const App: React.FC = () => {
                 >
                     Synchronize & Play
                 </button>
+                <ProjectLibrary onOpen={handleOpenProject} />
             </div>
         );
     }
@@ -478,7 +1333,7 @@ const App: React.FC = () => {
         </main>
       </div>
       <footer className="mt-8 text-center text-sm text-gray-500">
-        <p>Powered by Gemini API</p>
+        <p>Powered by Gemini API or fully offline local alignment</p>
       </footer>
     </div>
   );
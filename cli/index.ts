@@ -0,0 +1,409 @@
+import { spawn } from 'node:child_process';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  ALIGNERS,
+  AUTO_LANGUAGE,
+  buildQualityReport,
+  DEFAULT_EXPORT_SETTINGS,
+  DEFAULT_USAGE_LIMITS,
+  TIMING_FORMATS,
+  decodeWav,
+  getAligner,
+  getChunkJobKey,
+  loadUsageLimits,
+  loadUsageLog,
+  resolveDirection,
+  resolveLanguage,
+  serializeTimings,
+  setAlignmentCacheStore,
+  setChunkJobStore,
+  setMonoAudioDecoder,
+  setUsageStore,
+  sumUsage,
+  synchronize,
+  syncSpeakers,
+  toASS,
+  UsageLimitError,
+  type AlignerId,
+  type CachedAlignment,
+  type ChunkJobStore,
+  type ExportSettings,
+  type MonoAudioDecoder,
+  type TimingFormat,
+  type UsageLimits,
+} from '../lib';
+
+const USAGE = `Usage: npm run cli -- [options] <audio> <transcript> [<audio> <transcript> ...]
+
+Inputs (combine as needed):
+  <audio> <transcript>     Pairs of an audio file and a UTF-8 transcript file
+  --manifest <file.json>   JSON array of { "audio", "transcript", "name"?, "language"? };
+                           paths are relative to the manifest
+  --dir <folder>           Every audio file in the folder with a .txt of the same name
+
+Options:
+  --aligner <id>           ${ALIGNERS.map(a => a.id).join(' | ')} (default: gemini when GEMINI_API_KEY is set, else local)
+  --language <code>        Transcript language, or "auto" to detect it (default: auto)
+  --formats <list>         Comma-separated: ${[...TIMING_FORMATS.map(f => f.id), 'ass'].join(', ')} (default: vtt,json)
+  --out <folder>           Where results are written (default: ./aligned)
+  --video                  Also render an MP4 with burned-in karaoke subtitles (needs ffmpeg)
+  --settings <file.json>   Export settings (size, font, colours) for the video and .ass output
+  --refresh                Align again even when the same audio and transcript were aligned before
+  --max-requests <n>       Stop the batch once this many backend requests were sent in 24 hours
+                           (default: ${DEFAULT_USAGE_LIMITS.requestsPerDay ?? 'none'}; "none" for no limit)
+  --max-audio-minutes <n>  The same for minutes of audio sent (default: ${DEFAULT_USAGE_LIMITS.audioMinutesPerDay ?? 'none'})
+  --max-tokens <n>         The same for estimated tokens (default: ${DEFAULT_USAGE_LIMITS.tokensPerDay ?? 'none'})
+  --help                   Show this message
+
+Interrupted long files resume from the last finished chunk when run again with the same --out.
+Finished alignments and the usage log are kept there too, so repeated runs send no new requests.`;
+
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.opus', '.flac', '.webm'];
+const MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm',
+};
+// Rate used when ffmpeg decodes and the caller did not ask for one; plenty for speech detection.
+const FFMPEG_SAMPLE_RATE = 16000;
+
+interface CliJob {
+  name: string;
+  audio: string;
+  transcript: string;
+  language?: string;
+}
+
+interface JobResult {
+  job: CliJob;
+  cached?: boolean;
+  words?: number;
+  issues?: number;
+  // Average word confidence, 0–1.
+  quality?: number;
+  outputs?: string[];
+  error?: string;
+}
+
+class UsageError extends Error {}
+
+const runProcess = (command: string, args: string[], input?: Buffer): Promise<Buffer> =>
+  new Promise((resolvePromise, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', err => reject(
+      (err as NodeJS.ErrnoException).code === 'ENOENT' ? new Error(`${command} was not found on PATH.`) : err,
+    ));
+    child.on('close', code => {
+      if (code === 0) {
+        resolvePromise(Buffer.concat(stdout));
+      } else {
+        const detail = Buffer.concat(stderr).toString().trim().split('\n').slice(-3).join('\n');
+        reject(new Error(`${command} exited with code ${code}${detail ? `:\n${detail}` : ''}`));
+      }
+    });
+    // ffmpeg may stop reading early (e.g. on a bad file); that error is reported through `close`.
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+
+// WAV is read directly; anything else goes through ffmpeg as raw 32-bit float samples.
+const decodeInNode: MonoAudioDecoder = async (blob, sampleRate) => {
+  const data = await blob.arrayBuffer();
+  const isWav = new TextDecoder().decode(data.slice(0, 4)) === 'RIFF';
+  if (isWav) {
+    try {
+      const decoded = decodeWav(data, sampleRate);
+      return { ...decoded, duration: decoded.samples.length / decoded.sampleRate };
+    } catch {
+      // Compressed WAV variants fall through to ffmpeg.
+    }
+  }
+  const rate = sampleRate ?? FFMPEG_SAMPLE_RATE;
+  const output = await runProcess('ffmpeg', [
+    '-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', '-f', 'f32le', '-ac', '1', '-ar', String(rate), 'pipe:1',
+  ], Buffer.from(data));
+  const samples = new Float32Array(output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength - (output.byteLength % 4)));
+  return { samples, sampleRate: rate, duration: samples.length / rate };
+};
+
+// Chunk progress, cached alignments and the usage log live next to the results, one file per key.
+const fileStore = (folder: string): ChunkJobStore => {
+  const pathFor = (key: string) => join(folder, `${key.replace(/[^\w-]+/g, '_')}.json`);
+  return {
+    getItem: key => (existsSync(pathFor(key)) ? readFileSync(pathFor(key), 'utf8') : null),
+    setItem: (key, value) => {
+      mkdirSync(folder, { recursive: true });
+      writeFileSync(pathFor(key), value);
+    },
+    removeItem: key => rmSync(pathFor(key), { force: true }),
+  };
+};
+
+const useFileStores = (out: string) => {
+  setChunkJobStore(fileStore(join(out, '.jobs')));
+  setUsageStore(fileStore(join(out, '.usage')));
+  const folder = join(out, '.cache');
+  const cache = fileStore(folder);
+  setAlignmentCacheStore({
+    get: async key => {
+      const stored = cache.getItem(key);
+      return stored ? (JSON.parse(stored) as CachedAlignment) : undefined;
+    },
+    put: async entry => cache.setItem(entry.key, JSON.stringify(entry)),
+    clear: async () => rmSync(folder, { recursive: true, force: true }),
+  });
+};
+
+const parseLimit = (flag: string, value: string | undefined, fallback: number | null): number | null => {
+  if (value === undefined) return fallback;
+  if (value === 'none') return null;
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new UsageError(`--${flag} must be a number or "none".`);
+  }
+  return limit;
+};
+
+const jobName = (audioPath: string) => basename(audioPath, extname(audioPath));
+
+const readManifest = (manifestPath: string): CliJob[] => {
+  const folder = dirname(manifestPath);
+  const entries = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  if (!Array.isArray(entries)) {
+    throw new UsageError(`${manifestPath} must contain a JSON array.`);
+  }
+  return entries.map((entry, index) => {
+    if (typeof entry?.audio !== 'string' || typeof entry?.transcript !== 'string') {
+      throw new UsageError(`Manifest entry ${index + 1} needs "audio" and "transcript" paths.`);
+    }
+    const audio = resolve(folder, entry.audio);
+    return {
+      name: typeof entry.name === 'string' ? entry.name : jobName(audio),
+      audio,
+      transcript: resolve(folder, entry.transcript),
+      language: typeof entry.language === 'string' ? entry.language : undefined,
+    };
+  });
+};
+
+const readFolder = (folder: string): CliJob[] =>
+  readdirSync(folder)
+    .filter(file => AUDIO_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort()
+    .map(file => ({ name: jobName(file), audio: join(folder, file), transcript: join(folder, `${jobName(file)}.txt`) }))
+    .filter(job => existsSync(job.transcript));
+
+const loadSettings = (settingsPath?: string): ExportSettings =>
+  settingsPath
+    ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(readFileSync(settingsPath, 'utf8')), backgroundImage: null }
+    : DEFAULT_EXPORT_SETTINGS;
+
+const renderVideo = async (audioPath: string, assPath: string, videoPath: string, settings: ExportSettings) => {
+  // The path is part of a filter-graph string, where separators and quotes must be escaped.
+  const escapedAss = assPath.replace(/\\/g, '/').replace(/[:',;[\]]/g, '\\$&');
+  await runProcess('ffmpeg', [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-f', 'lavfi', '-i', `color=c=${settings.backgroundColor.replace('#', '0x')}:s=${settings.width}x${settings.height}:r=${settings.fps}`,
+    '-i', audioPath,
+    '-vf', `ass=${escapedAss}`,
+    '-shortest',
+    '-c:v', 'libx264', '-b:v', String(settings.videoBitrate), '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', String(settings.audioBitrate),
+    videoPath,
+  ]);
+};
+
+const processJob = async (
+  job: CliJob,
+  options: {
+    alignerId: AlignerId;
+    language: string;
+    formats: string[];
+    out: string;
+    video: boolean;
+    settings: ExportSettings;
+    refresh: boolean;
+    limits: UsageLimits;
+  },
+): Promise<JobResult> => {
+  const transcript = readFileSync(job.transcript, 'utf8');
+  if (!transcript.trim()) {
+    throw new Error('The transcript is empty.');
+  }
+  const stats = statSync(job.audio);
+  const extension = extname(job.audio).toLowerCase();
+  const audio = new File([readFileSync(job.audio)], basename(job.audio), {
+    type: MIME_TYPES[extension] ?? 'application/octet-stream',
+    lastModified: stats.mtimeMs,
+  });
+  const language = resolveLanguage(job.language ?? options.language, transcript);
+
+  let lastReported = -1;
+  const result = await synchronize({
+    audio,
+    mimeType: audio.type,
+    transcript,
+    language,
+    aligner: getAligner(options.alignerId),
+    onProgress: progress => {
+      const done = progress.chunks.filter(chunk => chunk.status === 'done').length;
+      if (progress.chunks.length > 1 && done !== lastReported) {
+        lastReported = done;
+        console.log(`  ${job.name}: ${done}/${progress.chunks.length} chunks aligned`);
+      }
+    },
+    usage: { project: job.name, limits: options.limits },
+  }, getChunkJobKey(audio, transcript, options.alignerId), { refresh: options.refresh });
+
+  // Diarized speaker labels get default names and colours.
+  const speakers = syncSpeakers(result.timings, []);
+  const outputs: string[] = [];
+  const write = (extensionName: string, content: string) => {
+    const path = join(options.out, `${job.name}.${extensionName}`);
+    writeFileSync(path, content);
+    outputs.push(path);
+    return path;
+  };
+  options.formats.forEach(format => {
+    if (format === 'ass') return;
+    const { extension: timingExtension } = TIMING_FORMATS.find(f => f.id === format)!;
+    write(timingExtension, serializeTimings(format as TimingFormat, { transcript, timings: result.timings, speakers }));
+  });
+
+  const direction = resolveDirection('auto', language);
+  if (options.formats.includes('ass') || options.video) {
+    const assPath = write('ass', toASS(result.timings, options.settings, direction, speakers));
+    if (options.video) {
+      const videoPath = join(options.out, `${job.name}.mp4`);
+      await renderVideo(job.audio, assPath, videoPath, options.settings);
+      outputs.push(videoPath);
+    }
+  }
+
+  return {
+    job,
+    cached: result.cached,
+    words: result.timings.length,
+    issues: result.reconciliationIssues.length + result.timingIssues.length,
+    quality: buildQualityReport(result.timings)?.average,
+    outputs,
+  };
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      aligner: { type: 'string' },
+      language: { type: 'string', default: AUTO_LANGUAGE },
+      formats: { type: 'string', default: 'vtt,json' },
+      out: { type: 'string', default: 'aligned' },
+      manifest: { type: 'string' },
+      dir: { type: 'string' },
+      video: { type: 'boolean', default: false },
+      settings: { type: 'string' },
+      refresh: { type: 'boolean', default: false },
+      'max-requests': { type: 'string' },
+      'max-audio-minutes': { type: 'string' },
+      'max-tokens': { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // The web build reads the key through Vite's define; here it comes from the environment.
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+  setMonoAudioDecoder(decodeInNode);
+
+  if (positionals.length % 2 !== 0) {
+    throw new UsageError('Audio and transcript files must be given in pairs.');
+  }
+  const jobs: CliJob[] = [];
+  for (let i = 0; i < positionals.length; i += 2) {
+    jobs.push({ name: jobName(positionals[i]), audio: resolve(positionals[i]), transcript: resolve(positionals[i + 1]) });
+  }
+  if (values.manifest) jobs.push(...readManifest(resolve(values.manifest)));
+  if (values.dir) jobs.push(...readFolder(resolve(values.dir)));
+  if (!jobs.length) {
+    throw new UsageError('Nothing to align.');
+  }
+
+  const formats = values.formats.split(',').map(format => format.trim()).filter(Boolean);
+  const unknown = formats.filter(format => format !== 'ass' && !TIMING_FORMATS.some(f => f.id === format));
+  if (unknown.length) {
+    throw new UsageError(`Unknown format(s): ${unknown.join(', ')}.`);
+  }
+  const alignerId = (values.aligner ?? (process.env.API_KEY ? 'gemini' : 'local')) as AlignerId;
+  if (!ALIGNERS.some(a => a.id === alignerId)) {
+    throw new UsageError(`Unknown aligner "${alignerId}".`);
+  }
+
+  const out = resolve(values.out);
+  mkdirSync(out, { recursive: true });
+  useFileStores(out);
+  const defaults = loadUsageLimits();
+  const limits: UsageLimits = {
+    requestsPerDay: parseLimit('max-requests', values['max-requests'], defaults.requestsPerDay),
+    audioMinutesPerDay: parseLimit('max-audio-minutes', values['max-audio-minutes'], defaults.audioMinutesPerDay),
+    tokensPerDay: parseLimit('max-tokens', values['max-tokens'], defaults.tokensPerDay),
+  };
+  const options = {
+    alignerId, language: values.language, formats, out, video: values.video, settings: loadSettings(values.settings), refresh: values.refresh, limits,
+  };
+
+  const startedAt = Date.now();
+  const results: JobResult[] = [];
+  let limitReached = false;
+  for (const [index, job] of jobs.entries()) {
+    // Once a limit is hit every later job would fail the same way, so the rest of the batch is skipped.
+    if (limitReached) {
+      results.push({ job, error: 'Skipped: usage limit reached.' });
+      continue;
+    }
+    console.log(`[${index + 1}/${jobs.length}] ${job.name}`);
+    try {
+      results.push(await processJob(job, options));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (err instanceof UsageLimitError) limitReached = true;
+      results.push({ job, error: message });
+    }
+  }
+
+  const failed = results.filter(result => result.error);
+  console.log('\nSummary:');
+  results.forEach(result => {
+    console.log(result.error
+      ? `  ✗ ${result.job.name}: ${result.error}`
+      : `  ✓ ${result.job.name}: ${result.words} words, ${result.issues} issue(s), ${
+          result.quality === undefined ? 'unscored' : `${Math.round(result.quality * 100)}% confidence`
+        }${result.cached ? ' (cached)' : ''} -> ${result.outputs!.map(path => basename(path)).join(', ')}`);
+  });
+  const usage = sumUsage(loadUsageLog().filter(record => record.at >= startedAt));
+  console.log(`\n${results.length - failed.length} succeeded, ${failed.length} failed.`);
+  console.log(`Usage: ${usage.requests} request(s), ${(usage.audioSeconds / 60).toFixed(1)} min of audio, ~${usage.estimatedTokens.toLocaleString()} tokens, ${usage.cacheHits} cache hit(s).`);
+  if (limitReached) console.log('Stopped early: a usage limit was reached.');
+  return failed.length ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ALIGNERS } from '../services/aligners';
+import type { AlignerId } from '../types';
+
+interface AlignerPickerProps {
+  value: AlignerId;
+  onChange: (id: AlignerId) => void;
+}
+
+const AlignerPicker: React.FC<AlignerPickerProps> = ({ value, onChange }) => {
+  return (
+    <div className="grid gap-3 md:grid-cols-2" role="radiogroup" aria-label="Alignment backend">
+      {ALIGNERS.map(aligner => {
+        const available = aligner.isAvailable();
+        const selected = aligner.id === value;
+        return (
+          <label
+            key={aligner.id}
+            className={`flex gap-3 p-4 rounded-lg border transition-colors duration-200 ${
+              selected ? 'border-yellow-500 bg-yellow-50' : 'border-gray-300 bg-white'
+            } ${available ? 'cursor-pointer hover:border-yellow-400' : 'opacity-50 cursor-not-allowed'}`}
+          >
+            <input
+              type="radio"
+              name="aligner"
+              value={aligner.id}
+              checked={selected}
+              disabled={!available}
+              onChange={() => onChange(aligner.id)}
+              className="mt-1 accent-yellow-500"
+            />
+            <span>
+              <span className="block font-semibold text-gray-800">{aligner.label}</span>
+              <span className="block text-sm text-gray-500">{aligner.description}</span>
+              {!available && <span className="block text-xs text-red-600 mt-1">Not available in this environment.</span>}
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AlignerPicker;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { decodeMonoAudio } from '../services/audioUtils';
+import { findSpeechBounds, recordingFileName, trimAudio } from '../services/recording';
+import { formatPlaybackTime } from './Scrubber';
+import { LoadingIcon } from '../constants';
+
+interface AudioRecorderProps {
+  onUse: (file: File) => void;
+}
+
+const buttonClass = 'px-4 py-2 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onUse }) => {
+  const recorder = useAudioRecorder();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<{ samples: Float32Array; sampleRate: number; duration: number } | null>(null);
+  const [trim, setTrim] = useState({ start: 0, end: 0 });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new take: decode it once for its duration and silence detection.
+  useEffect(() => {
+    setAnalysis(null);
+    setError(null);
+    if (!recorder.recording) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recorder.recording);
+    setPreviewUrl(url);
+    let cancelled = false;
+    decodeMonoAudio(recorder.recording)
+      .then(decoded => {
+        if (cancelled) return;
+        setAnalysis(decoded);
+        setTrim({ start: 0, end: decoded.duration });
+      })
+      .catch(err => {
+        console.error("Error decoding the recording:", err);
+        if (!cancelled) setError('The recording could not be decoded; it can still be used untrimmed.');
+      });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [recorder.recording]);
+
+  const handleTrimSilence = () => {
+    if (!analysis) return;
+    const bounds = findSpeechBounds(analysis.samples, analysis.sampleRate);
+    if (bounds) {
+      setTrim(bounds);
+    } else {
+      setError('No speech was detected in the recording.');
+    }
+  };
+
+  const handleUse = async () => {
+    if (!recorder.recording) return;
+    const isTrimmed = analysis && (trim.start > 0 || trim.end < analysis.duration);
+    setBusy(true);
+    try {
+      const blob = isTrimmed ? await trimAudio(recorder.recording, trim.start, trim.end) : recorder.recording;
+      onUse(new File([blob], recordingFileName(blob.type), { type: blob.type }));
+    } catch (err) {
+      console.error("Error trimming the recording:", err);
+      setError('Could not trim the recording.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const duration = analysis?.duration ?? 0;
+
+  return (
+    <div className="flex flex-col gap-3 p-4 rounded-lg border border-gray-300 bg-gray-50 text-sm text-gray-700">
+      {recorder.status !== 'recorded' && (
+        <div className="flex items-center gap-4">
+          {recorder.status === 'recording' ? (
+            <button
+              className="px-4 py-2 rounded-full bg-red-600 hover:bg-red-700 text-white text-sm transition-colors duration-200"
+              onClick={recorder.stop}
+            >Stop recording</button>
+          ) : (
+            <button className={buttonClass} onClick={recorder.start} disabled={recorder.status === 'requesting'}>
+              {recorder.status === 'requesting' ? 'Waiting for microphone…' : 'Start recording'}
+            </button>
+          )}
+          <div className="flex-grow h-3 rounded-full bg-gray-200 overflow-hidden" role="meter" aria-label="Input level" aria-valuemin={0} aria-valuemax={1} aria-valuenow={recorder.level}>
+            <div
+              className={`h-full transition-[width] duration-75 ${recorder.level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${recorder.level * 100}%` }}
+            />
+          </div>
+          <span className="tabular-nums text-gray-600">{formatPlaybackTime(recorder.elapsed)}</span>
+        </div>
+      )}
+      {recorder.status === 'recorded' && previewUrl && (
+        <>
+          <audio controls src={previewUrl} className="w-full" />
+          {analysis ? (
+            <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-3 gap-y-1">
+              <label htmlFor="trim-start">Start</label>
+              <input
+                id="trim-start"
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={trim.start}
+                onChange={e => setTrim({ ...trim, start: Math.min(Number(e.target.value), trim.end) })}
+                className="accent-yellow-500"
+              />
+              <span className="tabular-nums">{trim.start.toFixed(2)}s</span>
+              <label htmlFor="trim-end">End</label>
+              <input
+                id="trim-end"
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={trim.end}
+                onChange={e => setTrim({ ...trim, end: Math.max(Number(e.target.value), trim.start) })}
+                className="accent-yellow-500"
+              />
+              <span className="tabular-nums">{trim.end.toFixed(2)}s</span>
+            </div>
+          ) : !error && <LoadingIcon size={24} />}
+          <div className="flex flex-wrap items-center gap-2">
+            <button className={buttonClass} onClick={handleTrimSilence} disabled={!analysis}>Trim silence</button>
+            <button className={buttonClass} onClick={recorder.discard}>Re-take</button>
+            <button
+              className="ml-auto px-4 py-2 rounded-full bg-yellow-400 hover:bg-yellow-500 text-black text-sm font-semibold disabled:opacity-50"
+              onClick={handleUse}
+              disabled={busy}
+            >
+              {busy ? 'Preparing…' : 'Use this recording'}
+            </button>
+          </div>
+        </>
+      )}
+      {(recorder.error || error) && <p className="text-red-700">{recorder.error || error}</p>}
+    </div>
+  );
+};
+
+export default AudioRecorder;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { ChunkedAlignmentJob, ChunkStatus } from '../types';
+
+interface ChunkProgressProps {
+  job: ChunkedAlignmentJob;
+}
+
+const STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'bg-gray-200 text-gray-600',
+  running: 'bg-yellow-300 text-black animate-pulse',
+  done: 'bg-green-200 text-green-900',
+  failed: 'bg-red-200 text-red-900',
+};
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ job }) => {
+  const done = job.chunks.filter(c => c.status === 'done').length;
+  const percent = Math.round((done / job.chunks.length) * 100);
+
+  return (
+    <div className="w-full max-w-xl mt-6 text-left">
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>{done} of {job.chunks.length} {job.chunks.length === 1 ? 'part' : 'parts'} aligned</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-200 overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+        <div className="h-full bg-yellow-400 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+      {job.chunks.length > 1 && (
+        <ul className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-2 text-xs">
+          {job.chunks.map(chunk => (
+            <li key={chunk.index} className={`rounded-md px-2 py-1 ${STATUS_STYLES[chunk.status]}`} title={chunk.error}>
+              {formatClock(chunk.start)}–{formatClock(chunk.end)}
+              {chunk.attempts > 1 && chunk.status !== 'done' && ` (try ${chunk.attempts})`}
+              {chunk.status === 'failed' && ' failed'}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChunkProgress;
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createVideoRenderer, ensureFontLoaded, loadImage } from '../services/videoRenderer';
+import { HIGHLIGHT_MODES } from '../services/segmentation';
+import { AUDIO_BITRATES, FONT_FAMILIES, FPS_OPTIONS, HIGHLIGHT_STYLES, LAYOUT_MODES, RESOLUTION_PRESETS, VIDEO_BITRATES } from '../services/exportSettings';
+import { CONTAINERS, detectExportSupport, type ExportSupport } from '../services/videoCodecs';
+import type { ExportSettings, Speaker, TextDirection, Translation, VideoContainer, ViewElement, WordTiming } from '../types';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  viewElements: ViewElement[];
+  wordTimings: WordTiming[];
+  audioRef: React.RefObject<HTMLAudioElement>;
+  direction: TextDirection;
+  translation?: Translation | null;
+  speakers?: Speaker[] | null;
+}
+
+const fieldClass = 'w-full px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange, viewElements, wordTimings, audioRef, direction, translation, speakers }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
+  const [fontVersion, setFontVersion] = useState(0);
+  const [support, setSupport] = useState<Record<VideoContainer, ExportSupport> | null>(null);
+
+  const update = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) => onChange({ ...settings, [key]: value });
+
+  useEffect(() => {
+    let cancelled = false;
+    ensureFontLoaded(settings).then(() => { if (!cancelled) setFontVersion(v => v + 1); });
+    return () => { cancelled = true; };
+  }, [settings.fontFamily, settings.fontWeight, settings.fontSize]);
+
+  useEffect(() => {
+    let cancelled = false;
+    detectExportSupport(settings).then(result => { if (!cancelled) setSupport(result); });
+    return () => { cancelled = true; };
+  }, [settings.width, settings.height, settings.fps, settings.videoBitrate, settings.audioBitrate]);
+
+  useEffect(() => {
+    if (!settings.backgroundImage) {
+      setBackgroundImage(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(settings.backgroundImage)
+      .then(image => { if (!cancelled) setBackgroundImage(image); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [settings.backgroundImage]);
+
+  // Live preview follows the player position using the exact renderer used for export.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createVideoRenderer(canvas, viewElements, wordTimings, settings, backgroundImage, direction, translation, speakers);
+    let frameId: number;
+    let lastTimestamp: number | null = null;
+    const tick = (timestamp: number) => {
+      const delta = lastTimestamp === null ? 1 : (timestamp - lastTimestamp) / 1000;
+      lastTimestamp = timestamp;
+      const currentTime = audioRef.current?.currentTime ?? 0;
+      renderer.renderFrame(Math.max(currentTime, wordTimings[0]?.start ?? 0), delta);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [settings, viewElements, wordTimings, backgroundImage, fontVersion, audioRef, direction, translation, speakers]);
+
+  const handleBackgroundFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update('backgroundImage', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const presetId = RESOLUTION_PRESETS.find(p => p.width === settings.width && p.height === settings.height)?.id ?? '';
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[1fr_1.2fr] text-left">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <label className={labelClass} htmlFor="export-resolution">Aspect ratio &amp; resolution</label>
+          <select
+            id="export-resolution"
+            className={fieldClass}
+            value={presetId}
+            onChange={e => {
+              const preset = RESOLUTION_PRESETS.find(p => p.id === e.target.value);
+              if (preset) onChange({ ...settings, width: preset.width, height: preset.height });
+            }}
+          >
+            {RESOLUTION_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-layout">Layout</label>
+          <select id="export-layout" className={fieldClass} value={settings.layoutMode} onChange={e => update('layoutMode', e.target.value as ExportSettings['layoutMode'])}>
+            {LAYOUT_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-highlight">Highlight style</label>
+          <select id="export-highlight" className={fieldClass} value={settings.highlightStyle} onChange={e => update('highlightStyle', e.target.value as ExportSettings['highlightStyle'])}>
+            {HIGHLIGHT_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-highlight-mode">Highlight</label>
+          <select id="export-highlight-mode" className={fieldClass} value={settings.highlightMode} onChange={e => update('highlightMode', e.target.value as ExportSettings['highlightMode'])}>
+            {HIGHLIGHT_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+          </select>
+        </div>
+        {translation && (
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={settings.showTranslation} onChange={e => update('showTranslation', e.target.checked)} className="accent-yellow-500" />
+            Burn in the translation as subtitles
+          </label>
+        )}
+        {wordTimings.some(t => t.speaker) && (
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={settings.showSpeakers} onChange={e => update('showSpeakers', e.target.checked)} className="accent-yellow-500" />
+            Colour words by speaker and show who is talking
+          </label>
+        )}
+        <div>
+          <label className={labelClass} htmlFor="export-font">Font</label>
+          <select id="export-font" className={fieldClass} value={settings.fontFamily} onChange={e => update('fontFamily', e.target.value)}>
+            {FONT_FAMILIES.map(font => <option key={font} value={font}>{font}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-weight">Weight</label>
+          <select id="export-weight" className={fieldClass} value={settings.fontWeight} onChange={e => update('fontWeight', Number(e.target.value))}>
+            {[400, 500, 600, 700].map(weight => <option key={weight} value={weight}>{weight}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-size">Font size ({settings.fontSize}px)</label>
+          <input id="export-size" type="range" min={24} max={160} value={settings.fontSize} onChange={e => update('fontSize', Number(e.target.value))} className="w-full accent-yellow-500" />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-fps">Frame rate</label>
+          <select id="export-fps" className={fieldClass} value={settings.fps} onChange={e => update('fps', Number(e.target.value))}>
+            {FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+          </select>
+        </div>
+        {([
+          ['backgroundColor', 'Background'],
+          ['textColor', 'Text'],
+          ['activeTextColor', 'Active text'],
+          ['highlightColor', 'Highlight'],
+        ] as const).map(([key, label]) => (
+          <div key={key}>
+            <label className={labelClass} htmlFor={`export-${key}`}>{label}</label>
+            <input id={`export-${key}`} type="color" value={settings[key]} onChange={e => update(key, e.target.value)} className="h-8 w-full rounded border border-gray-300" />
+          </div>
+        ))}
+        <div>
+          <label className={labelClass} htmlFor="export-container">Format</label>
+          <select id="export-container" className={fieldClass} value={settings.container} onChange={e => update('container', e.target.value as VideoContainer)}>
+            {CONTAINERS.map(container => {
+              const available = !support || support[container.id].offline || support[container.id].realtime;
+              return <option key={container.id} value={container.id} disabled={!available}>{container.label}{available ? '' : ' — not supported'}</option>;
+            })}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-filename">File name</label>
+          <input id="export-filename" className={fieldClass} value={settings.fileName} onChange={e => update('fileName', e.target.value)} placeholder="synced-video" dir="auto" />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-video-bitrate">Video bitrate</label>
+          <select id="export-video-bitrate" className={fieldClass} value={settings.videoBitrate} onChange={e => update('videoBitrate', Number(e.target.value))}>
+            {VIDEO_BITRATES.map(bitrate => <option key={bitrate.value} value={bitrate.value}>{bitrate.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="export-audio-bitrate">Audio bitrate</label>
+          <select id="export-audio-bitrate" className={fieldClass} value={settings.audioBitrate} onChange={e => update('audioBitrate', Number(e.target.value))}>
+            {AUDIO_BITRATES.map(bitrate => <option key={bitrate.value} value={bitrate.value}>{bitrate.label}</option>)}
+          </select>
+        </div>
+        {support && (
+          <p className="col-span-2 text-xs text-gray-500">
+            {support[settings.container].offline
+              ? 'Renders faster than real time in this browser.'
+              : support[settings.container].realtime
+                ? 'This browser can only record this format in real time; the export takes as long as the audio.'
+                : 'This format is not supported by this browser at the selected resolution.'}
+          </p>
+        )}
+        <div className="col-span-2">
+          <label className={labelClass} htmlFor="export-background-image">Background image</label>
+          <div className="flex items-center gap-2">
+            <input id="export-background-image" type="file" accept="image/*" onChange={handleBackgroundFile} className="text-xs text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-gray-200 file:text-gray-800" />
+            {settings.backgroundImage && (
+              <button onClick={() => update('backgroundImage', null)} className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-xs text-gray-800">Remove</button>
+            )}
+          </div>
+        </div>
+      </div>
+      <div>
+        <span className={labelClass}>Preview</span>
+        <canvas
+          ref={canvasRef}
+          className="w-full max-h-[50vh] object-contain rounded border border-gray-300 bg-gray-100"
+          style={{ aspectRatio: `${settings.width} / ${settings.height}` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
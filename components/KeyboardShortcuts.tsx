@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+
+interface KeyboardShortcutsProps {
+  onClose: () => void;
+}
+
+export const READER_SHORTCUTS: { keys: string[]; action: string }[] = [
+  { keys: ['Space'], action: 'Play or pause' },
+  { keys: ['←', '→'], action: 'Back or forward 5 seconds' },
+  { keys: ['Home', 'End'], action: 'Go to the start or end' },
+  { keys: ['P', 'N'], action: 'Previous or next sentence' },
+  { keys: ['[', ']'], action: 'Slower or faster' },
+  { keys: ['L'], action: 'Loop the current sentence, or stop looping' },
+  { keys: ['R'], action: 'Change how often each sentence repeats' },
+  { keys: ['Esc'], action: 'Clear the loop' },
+  { keys: ['/'], action: 'Search the transcript' },
+  { keys: ['+', '−'], action: 'Larger or smaller text' },
+  { keys: ['?'], action: 'Show this list' },
+];
+
+// A modal list of the reader's shortcuts; focus moves into it and Escape closes it.
+const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({ onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' || event.key === '?') {
+      event.preventDefault();
+      event.stopPropagation();
+      onClose();
+    } else if (event.key === 'Tab') {
+      // Only the close button is focusable, so keep focus on it.
+      event.preventDefault();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl text-sm"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <h2 id="shortcuts-title" className="text-lg font-semibold text-gray-900 mb-4">Keyboard shortcuts</h2>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2">
+          {READER_SHORTCUTS.map(shortcut => (
+            <React.Fragment key={shortcut.action}>
+              <dt className="flex gap-1">
+                {shortcut.keys.map(key => <kbd key={key} className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 font-mono text-xs">{key}</kbd>)}
+              </dt>
+              <dd className="text-gray-700">{shortcut.action}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        <div className="mt-6 text-end">
+          <button ref={closeRef} onClick={onClose} className="px-4 py-2 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-yellow-500">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcuts;
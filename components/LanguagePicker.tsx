@@ -0,0 +1,40 @@
+import React from 'react';
+import { AUTO_LANGUAGE, getLanguage, LANGUAGES } from '../services/language';
+import type { DirectionSetting } from '../types';
+
+interface LanguagePickerProps {
+  language: string;
+  direction: DirectionSetting;
+  // What 'auto' currently resolves to, shown next to the auto options.
+  detectedLanguage: string;
+  onLanguageChange: (language: string) => void;
+  onDirectionChange: (direction: DirectionSetting) => void;
+}
+
+const fieldClass = 'px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ language, direction, detectedLanguage, onLanguageChange, onDirectionChange }) => {
+  const detected = getLanguage(detectedLanguage);
+  const languageDirection = getLanguage(language === AUTO_LANGUAGE ? detectedLanguage : language)?.direction ?? 'rtl';
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+      <label className="flex items-center gap-2">
+        Language
+        <select className={fieldClass} value={language} onChange={e => onLanguageChange(e.target.value)}>
+          <option value={AUTO_LANGUAGE}>Auto-detect{detected ? ` (${detected.label})` : ''}</option>
+          {LANGUAGES.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Direction
+        <select className={fieldClass} value={direction} onChange={e => onDirectionChange(e.target.value as DirectionSetting)}>
+          <option value="auto">From language ({languageDirection === 'rtl' ? 'right-to-left' : 'left-to-right'})</option>
+          <option value="rtl">Right-to-left</option>
+          <option value="ltr">Left-to-right</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default LanguagePicker;
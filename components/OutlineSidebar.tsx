@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { formatPlaybackTime } from './Scrubber';
+import type { Bookmark, OutlineEntry, WordRange, WordTiming } from '../types';
+
+interface OutlineSidebarProps {
+  outline: OutlineEntry[];
+  bookmarks: Bookmark[];
+  timings: WordTiming[];
+  activeWordIndex: number;
+  // Words selected in the reader (the loop range), bookmarked as a whole when set.
+  selection: WordRange | null;
+  onSeek: (wordIndex: number) => void;
+  onAddBookmark: (range: WordRange) => void;
+  onUpdateBookmark: (bookmark: Bookmark) => void;
+  onRemoveBookmark: (id: string) => void;
+}
+
+type Tab = 'outline' | 'bookmarks';
+
+const fieldClass = 'w-full px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+const tabClass = (active: boolean) => `flex-1 px-2 py-1 rounded-md ${active ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900'}`;
+
+const OutlineSidebar: React.FC<OutlineSidebarProps> = ({
+  outline, bookmarks, timings, activeWordIndex, selection, onSeek, onAddBookmark, onUpdateBookmark, onRemoveBookmark,
+}) => {
+  const [tab, setTab] = useState<Tab>('outline');
+  const [editing, setEditing] = useState<string | null>(null);
+  const timeOf = (wordIndex: number) => formatPlaybackTime(timings[wordIndex]?.start ?? 0);
+
+  const handleAdd = () => {
+    const range = selection ?? (activeWordIndex >= 0 ? { start: activeWordIndex, end: activeWordIndex } : null);
+    if (!range) return;
+    onAddBookmark(range);
+    setTab('bookmarks');
+  };
+
+  return (
+    <nav className="w-64 flex-shrink-0 flex flex-col gap-2 text-sm" aria-label="Transcript outline">
+      <div className="flex gap-1 p-1 rounded-lg bg-gray-100" role="tablist">
+        <button role="tab" aria-selected={tab === 'outline'} className={tabClass(tab === 'outline')} onClick={() => setTab('outline')}>Outline</button>
+        <button role="tab" aria-selected={tab === 'bookmarks'} className={tabClass(tab === 'bookmarks')} onClick={() => setTab('bookmarks')}>
+          Bookmarks{bookmarks.length ? ` (${bookmarks.length})` : ''}
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto pr-1">
+        {tab === 'outline' ? (
+          <ol className="flex flex-col">
+            {outline.map((entry, index) => {
+              const isCurrent = activeWordIndex >= entry.start && activeWordIndex <= entry.end;
+              return (
+                <li key={index}>
+                  <button
+                    onClick={() => onSeek(entry.start)}
+                    className={`w-full flex gap-2 items-baseline text-start px-2 py-1 rounded-md hover:bg-yellow-100 ${
+                      isCurrent ? 'bg-amber-100 text-gray-900' : 'text-gray-700'
+                    } ${entry.kind === 'heading' ? 'font-semibold' : ''}`}
+                    aria-current={isCurrent ? 'location' : undefined}
+                  >
+                    <span className="tabular-nums text-xs text-gray-500">{formatPlaybackTime(entry.startTime)}</span>
+                    <span dir="auto" className="min-w-0 break-words">{entry.title}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!selection && activeWordIndex < 0}
+              className="px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-50"
+            >
+              {selection ? 'Bookmark selected words' : 'Bookmark current word'}
+            </button>
+            {!bookmarks.length && <p className="text-gray-500">Select words in the text, or pause on one, and bookmark it to come back later.</p>}
+            <ul className="flex flex-col gap-2">
+              {bookmarks.map(bookmark => (
+                <li key={bookmark.id} className="rounded-lg border border-gray-200 bg-white p-2">
+                  {editing === bookmark.id ? (
+                    <div className="flex flex-col gap-2">
+                      <input
+                        className={fieldClass}
+                        value={bookmark.title}
+                        onChange={e => onUpdateBookmark({ ...bookmark, title: e.target.value })}
+                        dir="auto"
+                        aria-label="Bookmark title"
+                      />
+                      <textarea
+                        className={fieldClass}
+                        rows={3}
+                        value={bookmark.note}
+                        onChange={e => onUpdateBookmark({ ...bookmark, note: e.target.value })}
+                        placeholder="Note"
+                        dir="auto"
+                        aria-label="Bookmark note"
+                      />
+                      <div className="flex gap-2">
+                        <button className="text-yellow-800 hover:underline" onClick={() => setEditing(null)}>Done</button>
+                        <button className="text-red-700 hover:underline ms-auto" onClick={() => onRemoveBookmark(bookmark.id)}>Delete</button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <button onClick={() => onSeek(bookmark.start)} className="w-full flex gap-2 items-baseline text-start hover:underline">
+                        <span className="tabular-nums text-xs text-gray-500">{timeOf(bookmark.start)}</span>
+                        <span dir="auto" className="min-w-0 break-words font-medium text-gray-800">{bookmark.title || 'Untitled'}</span>
+                      </button>
+                      {bookmark.note && <p dir="auto" className="mt-1 text-gray-600 whitespace-pre-wrap">{bookmark.note}</p>}
+                      <button className="mt-1 text-xs text-gray-500 hover:underline" onClick={() => setEditing(bookmark.id)}>Edit</button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </nav>
+  );
+};
+
+export default OutlineSidebar;
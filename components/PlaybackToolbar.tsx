@@ -0,0 +1,56 @@
+import React from 'react';
+import { PLAYBACK_RATES, REPEAT_COUNTS, type PlaybackControls } from '../hooks/usePlaybackControls';
+
+interface PlaybackToolbarProps {
+  controls: PlaybackControls;
+  onLoopCurrentSentence: () => void;
+  disabled?: boolean;
+}
+
+const buttonClass = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-500 disabled:opacity-50';
+
+const PlaybackToolbar: React.FC<PlaybackToolbarProps> = ({ controls, onLoopCurrentSentence, disabled }) => {
+  const { rate, setRate, loopRange, setLoopRange, repeatCount, setRepeatCount, previousSentence, nextSentence } = controls;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm" dir="ltr">
+      <button className={buttonClass} onClick={previousSentence} disabled={disabled} title="Previous sentence (P)">⏮ Sentence</button>
+      <button className={buttonClass} onClick={nextSentence} disabled={disabled} title="Next sentence (N)">Sentence ⏭</button>
+      <label className="flex items-center gap-1 text-gray-600">
+        Speed
+        <select
+          value={rate}
+          onChange={e => setRate(Number(e.target.value))}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-gray-300 bg-white"
+          title="Playback speed ([ and ])"
+        >
+          {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1 text-gray-600">
+        Repeat sentence
+        <select
+          value={repeatCount}
+          onChange={e => setRepeatCount(Number(e.target.value))}
+          disabled={disabled || !!loopRange}
+          className="px-2 py-1 rounded border border-gray-300 bg-white"
+          title="Repeat each sentence (R)"
+        >
+          {REPEAT_COUNTS.map(n => <option key={n} value={n}>{n === 1 ? 'Off' : `${n}×`}</option>)}
+        </select>
+      </label>
+      {loopRange ? (
+        <button className={`${buttonClass} bg-yellow-300 hover:bg-yellow-400`} onClick={() => setLoopRange(null)} disabled={disabled} title="Clear loop (Esc)">
+          Looping A–B ✕
+        </button>
+      ) : (
+        <button className={buttonClass} onClick={onLoopCurrentSentence} disabled={disabled} title="Loop current sentence (L). Select words or Shift+click to loop a phrase.">
+          Loop sentence
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackToolbar;
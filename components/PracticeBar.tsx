@@ -0,0 +1,48 @@
+import React from 'react';
+import type { ReadAlong } from '../hooks/useReadAlong';
+
+interface PracticeBarProps {
+  readAlong: ReadAlong;
+  wordCount: number;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const describePace = (pace: number) => {
+  const percent = Math.round(pace * 100);
+  if (percent >= 90 && percent <= 110) return 'about the same pace as the recording';
+  return percent > 100 ? `${percent - 100}% faster than the recording` : `${100 - percent}% slower than the recording`;
+};
+
+const PracticeBar: React.FC<PracticeBarProps> = ({ readAlong, wordCount, onClose }) => {
+  const finished = readAlong.position >= wordCount;
+  return (
+    <div className="flex-shrink-0 mb-2 flex flex-wrap items-center gap-3 rounded-lg border border-green-200 bg-green-50 p-2 text-sm text-gray-700">
+      {readAlong.listening ? (
+        <button className="px-3 py-1 rounded-full bg-red-600 hover:bg-red-700 text-white text-sm transition-colors duration-200" onClick={readAlong.stop}>
+          Stop listening
+        </button>
+      ) : (
+        <button className={buttonClass} onClick={readAlong.start} disabled={finished}>
+          {readAlong.position > 0 ? 'Continue reading' : 'Start reading aloud'}
+        </button>
+      )}
+      <span className="font-medium text-green-800">
+        {finished ? 'Finished!' : `${readAlong.position} of ${wordCount} words read`}
+      </span>
+      {readAlong.skipped.length > 0 && (
+        <span className="text-red-700">{readAlong.skipped.length} skipped</span>
+      )}
+      {readAlong.pace !== null && <span className="text-gray-500">{describePace(readAlong.pace)}</span>}
+      {readAlong.error && <span className="text-red-700">{readAlong.error}</span>}
+      <div className="ml-auto flex items-center gap-2">
+        <span className="text-gray-500 hidden md:inline">Click a word to start from there</span>
+        <button className={buttonClass} onClick={() => readAlong.restartFrom(0)} disabled={readAlong.listening}>Start over</button>
+        <button className={buttonClass} onClick={onClose}>Done practicing</button>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeBar;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { PREPROCESS_SAMPLE_RATES } from '../services/preprocess';
+import { parseTimestamp } from '../services/timingFormats';
+import { formatPlaybackTime } from './Scrubber';
+import type { AudioPreprocessing } from '../types';
+
+interface PreprocessPanelProps {
+  settings: AudioPreprocessing;
+  onChange: (settings: AudioPreprocessing) => void;
+  disabled?: boolean;
+}
+
+const fieldClass = 'px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none disabled:opacity-50';
+
+const parseTime = (value: string): number | null => {
+  if (!value.trim()) return null;
+  try {
+    const seconds = parseTimestamp(value);
+    return seconds >= 0 ? seconds : null;
+  } catch {
+    return null;
+  }
+};
+
+const PreprocessPanel: React.FC<PreprocessPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const [rangeStart, setRangeStart] = useState(settings.range ? formatPlaybackTime(settings.range.start) : '');
+  const [rangeEnd, setRangeEnd] = useState(settings.range ? formatPlaybackTime(settings.range.end) : '');
+  const update = (changes: Partial<AudioPreprocessing>) => onChange({ ...settings, ...changes });
+  const isOff = disabled || !settings.enabled;
+
+  // An empty start means the beginning and an empty end the end of the file.
+  const applyRange = (startText: string, endText: string) => {
+    const start = parseTime(startText);
+    const end = parseTime(endText);
+    update({ range: start === null && end === null ? null : { start: start ?? 0, end: end ?? Infinity } });
+  };
+
+  return (
+    <details className="rounded-lg border border-gray-300 bg-gray-50 p-3 text-sm text-gray-700" open={settings.enabled}>
+      <summary className="cursor-pointer font-medium text-gray-800">Audio preprocessing {settings.enabled ? '(on)' : '(off)'}</summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.enabled} disabled={disabled} onChange={e => update({ enabled: e.target.checked })} />
+          Clean up the audio before aligning (the original file is still used for playback and export)
+        </label>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2">
+            Sample rate
+            <select className={fieldClass} value={settings.sampleRate} disabled={isOff} onChange={e => update({ sampleRate: Number(e.target.value) })}>
+              {PREPROCESS_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz mono</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.normalize} disabled={isOff} onChange={e => update({ normalize: e.target.checked })} />
+            Normalize loudness
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.trimSilence} disabled={isOff} onChange={e => update({ trimSilence: e.target.checked })} />
+            Trim leading and trailing silence
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Only align from</span>
+          <input
+            className={`${fieldClass} w-24`}
+            value={rangeStart}
+            placeholder="start"
+            disabled={isOff}
+            onChange={e => setRangeStart(e.target.value)}
+            onBlur={() => applyRange(rangeStart, rangeEnd)}
+            aria-label="Range start (m:ss)"
+          />
+          <span>to</span>
+          <input
+            className={`${fieldClass} w-24`}
+            value={rangeEnd}
+            placeholder="end"
+            disabled={isOff}
+            onChange={e => setRangeEnd(e.target.value)}
+            onBlur={() => applyRange(rangeStart, rangeEnd)}
+            aria-label="Range end (m:ss)"
+          />
+          <span className="text-gray-500">(m:ss; the transcript should cover just this part)</span>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default PreprocessPanel;
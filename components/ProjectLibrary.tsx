@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { deleteProject, duplicateProject, listProjects, renameProject, saveProject } from '../services/projectStore';
+import { exportProjectBundle, importProjectBundle } from '../services/projectBundle';
+import { downloadBlob } from '../services/download';
+import type { Project } from '../types';
+
+interface ProjectLibraryProps {
+  onOpen: (project: Project) => void;
+}
+
+const actionButton = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-xs transition-colors duration-200';
+
+export const bundleFileName = (project: Project) => `${project.name.replace(/[\\/:*?"<>|]+/g, '_')}.sync.zip`;
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    listProjects()
+      .then(setProjects)
+      .catch(err => {
+        console.error("Error loading projects:", err);
+        setError('Saved projects could not be loaded. Your browser may be blocking local storage.');
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setError(null);
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error(failure, err);
+      setError(`${failure} ${err instanceof Error ? err.message : ''}`.trim());
+    }
+  };
+
+  const commitRename = (id: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (name) run(() => renameProject(id, name), 'Could not rename the project.');
+  };
+
+  const handleDelete = (project: Project) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      run(() => deleteProject(project.id), 'Could not delete the project.');
+    }
+  };
+
+  const handleExport = (project: Project) =>
+    run(async () => downloadBlob(await exportProjectBundle(project), bundleFileName(project)), 'Could not export the project.');
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) run(async () => saveProject(await importProjectBundle(file)), `Could not import "${file.name}".`);
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium text-gray-700">Saved Projects</h2>
+        <label className={`${actionButton} cursor-pointer`}>
+          Import bundle…
+          <input type="file" accept=".zip,application/zip" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {error && <p className="mb-2 text-sm text-red-700">{error}</p>}
+      {projects.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved projects yet. Synchronized sessions can be saved from the player.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-64 overflow-y-auto">
+          {projects.map(project => (
+            <li key={project.id} className="flex flex-wrap items-center gap-2 py-2">
+              <div className="flex-grow min-w-0">
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(project.id)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename(project.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full px-2 py-1 rounded border border-gray-300 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                    aria-label="Project name"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(project)} className="block max-w-full truncate text-left font-semibold text-gray-800 hover:underline" dir="auto">
+                    {project.name}
+                  </button>
+                )}
+                <span className="block text-xs text-gray-500">
+                  {project.timings.length} words · {project.audioName} · updated {new Date(project.updatedAt).toLocaleString()}
+                </span>
+              </div>
+              <button className={actionButton} onClick={() => onOpen(project)}>Open</button>
+              <button className={actionButton} onClick={() => { setRenamingId(project.id); setDraftName(project.name); }}>Rename</button>
+              <button className={actionButton} onClick={() => run(() => duplicateProject(project.id), 'Could not duplicate the project.')}>Duplicate</button>
+              <button className={actionButton} onClick={() => handleExport(project)}>Export</button>
+              <button className={`${actionButton} hover:bg-red-200 hover:text-red-900`} onClick={() => handleDelete(project)}>Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { QualityGrade, QualityReport as QualityReportData } from '../types';
+
+interface QualityReportProps {
+  report: QualityReportData | null;
+  onReview: () => void;
+  onSelectWord: (index: number) => void;
+}
+
+const GRADE_STYLES: Record<QualityGrade, { label: string; className: string }> = {
+  good: { label: 'Good', className: 'text-green-700' },
+  fair: { label: 'Fair', className: 'text-amber-800' },
+  poor: { label: 'Poor', className: 'text-red-700' },
+};
+
+const QualityReport: React.FC<QualityReportProps> = ({ report, onReview, onSelectWord }) => {
+  if (!report) return null;
+  const grade = GRADE_STYLES[report.grade];
+  const lowCount = report.lowWords.length;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-2 rounded-lg border border-gray-300 bg-gray-50 p-3 text-sm text-gray-700">
+      <span className="font-medium text-gray-800">
+        Sync quality: <span className={grade.className}>{grade.label}</span>
+      </span>
+      <span>average confidence {Math.round(report.average * 100)}%</span>
+      <span>{lowCount === 0 ? 'no words flagged' : `${lowCount} ${lowCount === 1 ? 'word' : 'words'} flagged`}</span>
+      {report.worstRun && report.worstRun.end > report.worstRun.start && (
+        <button className="hover:underline" onClick={() => onSelectWord(report.worstRun!.start)}>
+          weakest stretch: words {report.worstRun.start + 1}–{report.worstRun.end + 1}
+        </button>
+      )}
+      {lowCount > 0 && (
+        <button
+          onClick={onReview}
+          className="ml-auto px-3 py-1 rounded-full bg-yellow-400 hover:bg-yellow-500 text-black transition-colors duration-200"
+        >
+          Review flagged words
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QualityReport;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { getDefaultReaderSettings, READER_ANNOUNCEMENTS, READER_FONT_SIZE, READER_FONTS, READER_THEMES, READING_GUIDES } from '../services/readerSettings';
+import type { ReaderSettings } from '../types';
+
+interface ReaderSettingsPanelProps {
+  settings: ReaderSettings;
+  onChange: (settings: ReaderSettings) => void;
+}
+
+const fieldClass = 'w-full px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+const ReaderSettingsPanel: React.FC<ReaderSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof ReaderSettings>(key: K, value: ReaderSettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+      <div>
+        <label className={labelClass} htmlFor="reader-font">Font</label>
+        <select id="reader-font" className={fieldClass} value={settings.fontFamily} onChange={e => update('fontFamily', e.target.value)}>
+          {READER_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-size">Text size ({settings.fontSize}px; + and − keys)</label>
+        <input
+          id="reader-size"
+          type="range"
+          min={READER_FONT_SIZE.min}
+          max={READER_FONT_SIZE.max}
+          step={READER_FONT_SIZE.step}
+          value={settings.fontSize}
+          onChange={e => update('fontSize', Number(e.target.value))}
+          className="w-full accent-yellow-500"
+        />
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-theme">Theme</label>
+        <select id="reader-theme" className={fieldClass} value={settings.theme} onChange={e => update('theme', e.target.value as ReaderSettings['theme'])}>
+          {READER_THEMES.map(theme => <option key={theme.id} value={theme.id}>{theme.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-line-height">Line spacing ({settings.lineHeight.toFixed(1)})</label>
+        <input id="reader-line-height" type="range" min={1.2} max={3.5} step={0.1} value={settings.lineHeight} onChange={e => update('lineHeight', Number(e.target.value))} className="w-full accent-yellow-500" />
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-letter-spacing">Letter spacing ({settings.letterSpacing.toFixed(2)}em)</label>
+        <input id="reader-letter-spacing" type="range" min={0} max={0.3} step={0.01} value={settings.letterSpacing} onChange={e => update('letterSpacing', Number(e.target.value))} className="w-full accent-yellow-500" />
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-word-spacing">Word spacing ({settings.wordSpacing.toFixed(2)}em)</label>
+        <input id="reader-word-spacing" type="range" min={0} max={1} step={0.05} value={settings.wordSpacing} onChange={e => update('wordSpacing', Number(e.target.value))} className="w-full accent-yellow-500" />
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-guide">Reading guide</label>
+        <select id="reader-guide" className={fieldClass} value={settings.readingGuide} onChange={e => update('readingGuide', e.target.value as ReaderSettings['readingGuide'])}>
+          {READING_GUIDES.map(guide => <option key={guide.id} value={guide.id}>{guide.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass} htmlFor="reader-announce">Screen reader announces</label>
+        <select id="reader-announce" className={fieldClass} value={settings.announce} onChange={e => update('announce', e.target.value as ReaderSettings['announce'])}>
+          {READER_ANNOUNCEMENTS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-gray-700 self-end">
+        <input type="checkbox" checked={settings.reducedMotion} onChange={e => update('reducedMotion', e.target.checked)} className="accent-yellow-500" />
+        Reduce motion (no smooth scrolling or animations)
+      </label>
+      <div className="col-span-2 md:col-span-3">
+        <button className="text-gray-600 hover:underline" onClick={() => onChange(getDefaultReaderSettings())}>Reset display settings</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReaderSettingsPanel;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { ReconciliationIssue, ReconciliationIssueKind } from '../types';
+
+interface ReconciliationReportProps {
+  issues: ReconciliationIssue[];
+  onSelectWord?: (index: number) => void;
+}
+
+const KIND_LABELS: Record<ReconciliationIssueKind, string> = {
+  substituted: 'Different spelling',
+  missing: 'Not timed by model (interpolated)',
+  extra: 'Extra word from model (ignored)',
+  merged: 'Two words timed as one',
+  split: 'One word timed as two',
+};
+
+const ReconciliationReport: React.FC<ReconciliationReportProps> = ({ issues, onSelectWord }) => {
+  if (!issues.length) return null;
+
+  return (
+    <details className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-gray-700">
+      <summary className="cursor-pointer font-medium text-amber-800">
+        {issues.length} {issues.length === 1 ? 'difference' : 'differences'} between the transcript and the aligner output were reconciled
+      </summary>
+      <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-amber-200">
+        {issues.map((issue, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-x-3 py-1">
+            <span className="text-amber-800">{KIND_LABELS[issue.kind]}</span>
+            {issue.transcriptWord !== undefined && (
+              <button
+                className="font-semibold text-gray-900 hover:underline disabled:no-underline"
+                disabled={!onSelectWord || issue.transcriptIndex === undefined}
+                onClick={() => issue.transcriptIndex !== undefined && onSelectWord?.(issue.transcriptIndex)}
+                dir="auto"
+              >
+                {issue.transcriptWord}
+              </button>
+            )}
+            {issue.modelWords.length > 0 && (
+              <span className="text-gray-500" dir="auto">model: {issue.modelWords.join(' + ')}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default ReconciliationReport;
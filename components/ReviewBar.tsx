@@ -0,0 +1,49 @@
+import React from 'react';
+import type { WordTiming } from '../types';
+
+interface ReviewBarProps {
+  timings: WordTiming[];
+  // Indices of the words still flagged, in order.
+  lowWords: number[];
+  currentIndex: number;
+  onStep: (index: number) => void;
+  onConfirm: (index: number) => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Steps through low-confidence words; the timing editor below is used to fix them.
+const ReviewBar: React.FC<ReviewBarProps> = ({ timings, lowWords, currentIndex, onStep, onConfirm, onClose }) => {
+  const position = lowWords.indexOf(currentIndex);
+  // When the current word is not flagged (e.g. just fixed), step relative to where it sits.
+  const previous = [...lowWords].reverse().find(index => index < currentIndex);
+  const next = lowWords.find(index => index > currentIndex);
+  const current = timings[currentIndex];
+
+  return (
+    <div className="flex-shrink-0 mb-2 flex flex-wrap items-center gap-3 rounded-lg border border-red-200 bg-red-50 p-2 text-sm text-gray-700">
+      <span className="font-medium text-red-800">
+        {lowWords.length === 0
+          ? 'All flagged words reviewed'
+          : position >= 0 ? `Flagged word ${position + 1} of ${lowWords.length}` : `${lowWords.length} flagged ${lowWords.length === 1 ? 'word' : 'words'}`}
+      </span>
+      {current && (
+        <span dir="auto">
+          <span className="font-semibold text-gray-900">{current.word}</span>
+          {current.confidence !== undefined && <span className="text-gray-500"> ({Math.round(current.confidence * 100)}%)</span>}
+        </span>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        <button className={buttonClass} onClick={() => previous !== undefined && onStep(previous)} disabled={previous === undefined}>Previous</button>
+        <button className={buttonClass} onClick={() => next !== undefined && onStep(next)} disabled={next === undefined}>Next</button>
+        <button className={buttonClass} onClick={() => onConfirm(currentIndex)} disabled={position < 0} title="Keep this timing and clear the flag">
+          Looks right
+        </button>
+        <button className={buttonClass} onClick={onClose}>Done reviewing</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewBar;
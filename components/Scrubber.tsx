@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import type { WordRange, WordTiming } from '../types';
+
+interface ScrubberProps {
+  audioRef: React.RefObject<HTMLAudioElement>;
+  wordTimings: WordTiming[];
+  loopRange: WordRange | null;
+  onSeek: (time: number) => void;
+}
+
+export const formatPlaybackTime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor(seconds / 60) % 60;
+  const s = Math.floor(seconds % 60);
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+};
+
+const Scrubber: React.FC<ScrubberProps> = ({ audioRef, wordTimings, loopRange, onSeek }) => {
+  const [position, setPosition] = useState({ time: 0, duration: 0 });
+
+  useEffect(() => {
+    let frameId: number;
+    const tick = () => {
+      const audioEl = audioRef.current;
+      if (audioEl) {
+        const next = { time: audioEl.currentTime, duration: Number.isFinite(audioEl.duration) ? audioEl.duration : 0 };
+        setPosition(prev => (prev.time === next.time && prev.duration === next.duration ? prev : next));
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [audioRef]);
+
+  const { time, duration } = position;
+  const loopStart = loopRange ? wordTimings[loopRange.start]?.start : undefined;
+  const loopEnd = loopRange ? wordTimings[loopRange.end]?.end : undefined;
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-600 tabular-nums" dir="ltr">
+      <span>{formatPlaybackTime(time)}</span>
+      <div className="relative flex-grow">
+        {duration > 0 && loopStart !== undefined && loopEnd !== undefined && (
+          <div
+            className="absolute top-1/2 -translate-y-1/2 h-3 rounded bg-yellow-300/60 pointer-events-none"
+            style={{ left: `${(loopStart / duration) * 100}%`, width: `${((loopEnd - loopStart) / duration) * 100}%` }}
+          />
+        )}
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={Math.min(time, duration || 0)}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="relative w-full accent-yellow-500"
+          aria-label="Playback position"
+          aria-valuetext={`${formatPlaybackTime(time)} of ${formatPlaybackTime(duration)}`}
+        />
+      </div>
+      <span>{formatPlaybackTime(duration)}</span>
+    </div>
+  );
+};
+
+export default Scrubber;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { MAX_SEARCH_HITS } from '../services/search';
+import type { TranscriptSearch } from '../hooks/useTranscriptSearch';
+import type { WordRange } from '../types';
+
+interface SearchBarProps {
+  search: TranscriptSearch;
+  inputRef?: React.Ref<HTMLInputElement>;
+  // Called with the hit to seek to after stepping through the results.
+  onJump: (hit: WordRange) => void;
+}
+
+const buttonClass = 'px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-800 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const SearchBar: React.FC<SearchBarProps> = ({ search, inputRef, onJump }) => {
+  const { query, hits, current } = search;
+  const jump = (hit: WordRange | null) => { if (hit) onJump(hit); };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      jump(event.shiftKey ? search.previous() : search.next());
+    } else if (event.key === 'Escape') {
+      search.clear();
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 me-auto" role="search">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={e => search.setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search transcript ( / )"
+        dir="auto"
+        className="w-48 px-2 py-1 rounded border border-gray-300 bg-white focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+        aria-label="Search transcript"
+      />
+      {query.trim() && (
+        <>
+          <span className="tabular-nums text-gray-500" aria-live="polite">
+            {hits.length ? `${current + 1} / ${hits.length}${hits.length >= MAX_SEARCH_HITS ? '+' : ''}` : 'No matches'}
+          </span>
+          <button className={buttonClass} onClick={() => jump(search.previous())} disabled={!hits.length} aria-label="Previous match">↑</button>
+          <button className={buttonClass} onClick={() => jump(search.next())} disabled={!hits.length} aria-label="Next match">↓</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { countSpeakerWords, createSpeaker } from '../services/speakers';
+import type { Speaker, WordRange, WordTiming } from '../types';
+
+interface SpeakerPanelProps {
+  speakers: Speaker[];
+  timings: WordTiming[];
+  // Words selected in the reader (the loop range), if any.
+  selection: WordRange | null;
+  onSpeakersChange: (speakers: Speaker[]) => void;
+  onAssign: (range: WordRange, speakerId: string | null) => void;
+  onRemove: (speakerId: string) => void;
+}
+
+const fieldClass = 'px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+const buttonClass = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm transition-colors duration-200 disabled:opacity-50';
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, timings, selection, onSpeakersChange, onAssign, onRemove }) => {
+  const wordCounts = useMemo(() => countSpeakerWords(timings), [timings]);
+  const selectedWords = selection ? selection.end - selection.start + 1 : 0;
+
+  const update = (id: string, changes: Partial<Speaker>) =>
+    onSpeakersChange(speakers.map(speaker => (speaker.id === id ? { ...speaker, ...changes } : speaker)));
+
+  const handleAdd = () => {
+    const speaker = createSpeaker(speakers);
+    onSpeakersChange([...speakers, speaker]);
+    if (selection) onAssign(selection, speaker.id);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <p className="text-gray-600">
+        {selection
+          ? `${selectedWords} selected word${selectedWords === 1 ? '' : 's'} — assign them to a speaker:`
+          : 'Select words in the text to assign them to a speaker.'}
+      </p>
+      {speakers.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {speakers.map(speaker => (
+            <li key={speaker.id} className="flex flex-wrap items-center gap-2">
+              <input
+                type="color"
+                value={speaker.color}
+                onChange={e => update(speaker.id, { color: e.target.value })}
+                className="w-8 h-8 rounded border border-gray-300 bg-white"
+                aria-label={`Colour for ${speaker.name}`}
+              />
+              <input
+                className={fieldClass}
+                value={speaker.name}
+                onChange={e => update(speaker.id, { name: e.target.value })}
+                dir="auto"
+                aria-label="Speaker name"
+              />
+              <span className="text-gray-500 tabular-nums">{wordCounts.get(speaker.id) ?? 0} words</span>
+              <button className={buttonClass} onClick={() => selection && onAssign(selection, speaker.id)} disabled={!selection}>
+                Assign selection
+              </button>
+              <button className={buttonClass} onClick={() => onRemove(speaker.id)}>Remove</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <button className={buttonClass} onClick={handleAdd}>
+          {selection ? 'New speaker for selection' : 'Add speaker'}
+        </button>
+        <button className={buttonClass} onClick={() => selection && onAssign(selection, null)} disabled={!selection}>
+          Clear speaker from selection
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerPanel;
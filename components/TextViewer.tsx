@@ -1,49 +1,367 @@
+import React, { useRef, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { splitElements } from '../services/segmentation';
+import { readerFontStack, THEME_CLASSES, type ReaderThemeClasses } from '../services/readerSettings';
+import type { Bookmark, HighlightMode, ParallelLayout, ReaderSettings, Speaker, TextDirection, TextSegment, ViewElement, ViewElementWord, WordRange } from '../types';
 
-import React, { useRef, useEffect } from 'react';
-import type { ViewElement } from '../types';
+export interface ParallelText {
+  // Translated text per source sentence.
+  segments: string[];
+  layout: ParallelLayout;
+  direction: TextDirection;
+  language: string;
+}
 
 interface TextViewerProps {
   viewElements: ViewElement[];
   activeWordIndex: number;
+  direction?: TextDirection;
+  language?: string;
+  selectedWordIndex?: number;
+  rangeHighlight?: WordRange | null;
+  highlightMode?: HighlightMode;
+  activeSegment?: TextSegment | null;
+  parallelText?: ParallelText | null;
+  // Review mode: words with a confidence below this are marked.
+  reviewThreshold?: number | null;
+  // Practice mode: words the reader passed over.
+  skippedWords?: number[] | null;
+  // When set, words are coloured by speaker and each change of speaker gets a name tag.
+  speakers?: Speaker[] | null;
+  searchHits?: WordRange[] | null;
+  currentSearchHit?: WordRange | null;
+  bookmarks?: Bookmark[] | null;
+  // Font, spacing, theme and reading aids; without it the reader keeps its default look.
+  readerSettings?: ReaderSettings | null;
+  onWordClick?: (index: number, event: React.MouseEvent) => void;
+  onSelectRange?: (range: WordRange) => void;
 }
 
-const TextViewer: React.FC<TextViewerProps> = ({ viewElements, activeWordIndex }) => {
-  const activeWordRef = useRef<HTMLSpanElement>(null);
+// Words are rendered in memoized chunks, so moving the highlight only re-renders the
+// one or two chunks it touches instead of every word of a long transcript.
+const WORDS_PER_CHUNK = 200;
 
-  useEffect(() => {
-    if (activeWordRef.current) {
-      activeWordRef.current.scrollIntoView({
-        behavior: 'smooth',
-        block: 'center',
-        inline: 'nearest',
-      });
+interface Chunk {
+  elements: ViewElement[];
+  // Index of the word just before the chunk (-1 for the first one).
+  before: number;
+  last: number;
+}
+
+const buildChunks = (viewElements: ViewElement[]): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let current: Chunk = { elements: [], before: -1, last: -1 };
+  let words = 0;
+  viewElements.forEach(element => {
+    current.elements.push(element);
+    if (element.type !== 'word') return;
+    current.last = element.originalIndex;
+    if (++words % WORDS_PER_CHUNK === 0) {
+      chunks.push(current);
+      current = { elements: [], before: element.originalIndex, last: element.originalIndex };
     }
-  }, [activeWordIndex]);
+  });
+  if (current.elements.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// One chunk per sentence for the parallel layouts, without the whitespace that led into it.
+const buildSentenceChunks = (viewElements: ViewElement[]): Chunk[] =>
+  splitElements(viewElements, 'sentence').map(group => {
+    const words = group.filter((el): el is ViewElementWord => el.type === 'word');
+    return {
+      elements: group.slice(group.indexOf(words[0])),
+      before: words[0].originalIndex - 1,
+      last: words[words.length - 1].originalIndex,
+    };
+  });
+
+interface ChunkProps {
+  elements: ViewElement[];
+  before: number;
+  active: number;
+  selected: number;
+  // Loop range and active segment, clipped to the chunk (start > end when empty).
+  rangeStart: number;
+  rangeEnd: number;
+  segmentStart: number;
+  segmentEnd: number;
+  // Words after this index are shaded as unread.
+  readUpTo: number;
+  // 0 when not reviewing.
+  reviewThreshold: number;
+  // Only set for chunks containing skipped words.
+  skipped?: ReadonlySet<number>;
+  speakers?: ReadonlyMap<string, Speaker>;
+  // Speaker of the word just before the chunk, so a turn continuing into it gets no new tag.
+  speakerBefore?: string;
+  // Only set for chunks containing search hits or bookmarks; the current hit is clipped like the range.
+  hits?: ReadonlySet<number>;
+  hitStart: number;
+  hitEnd: number;
+  bookmarked?: ReadonlyMap<number, Bookmark>;
+  theme: ReaderThemeClasses;
+  animate: boolean;
+  clickable: boolean;
+}
 
+const SpeakerTag: React.FC<{ speaker: Speaker }> = ({ speaker }) => (
+  <span
+    className="speaker-tag inline-block me-2 px-2 rounded-full text-base font-semibold align-middle select-none"
+    style={{ color: speaker.color, backgroundColor: `${speaker.color}1a` }}
+    aria-label={`${speaker.name}:`}
+  >
+    {speaker.name}
+  </span>
+);
+
+const TextChunk = React.memo(({
+  elements, before, active, selected, rangeStart, rangeEnd, segmentStart, segmentEnd, readUpTo, reviewThreshold, skipped, speakers, speakerBefore, hits, hitStart, hitEnd, bookmarked, theme, animate, clickable,
+}: ChunkProps) => {
+  let previousWordIndex = before;
+  let previousSpeaker = speakerBefore;
   return (
-    <div
-      className="bg-gray-50/70 p-6 rounded-lg border border-gray-200 text-3xl md:text-4xl font-medium"
-      style={{ lineHeight: '2', whiteSpace: 'pre-wrap', direction: 'rtl', textAlign: 'right' }}
-    >
-      {viewElements.map((element, index) => {
+    <>
+      {elements.map((element, index) => {
         if (element.type === 'word') {
-          return (
+          const wordIndex = element.originalIndex;
+          previousWordIndex = wordIndex;
+          const inRange = wordIndex >= rangeStart && wordIndex <= rangeEnd;
+          const inSegment = wordIndex >= segmentStart && wordIndex <= segmentEnd;
+          const isFlagged = element.confidence !== undefined && element.confidence < reviewThreshold;
+          const speaker = element.speaker ? speakers?.get(element.speaker) : undefined;
+          const startsTurn = !!speaker && element.speaker !== previousSpeaker;
+          previousSpeaker = element.speaker;
+          const isHit = !!hits?.has(wordIndex);
+          const isCurrentHit = wordIndex >= hitStart && wordIndex <= hitEnd;
+          const bookmark = bookmarked?.get(wordIndex);
+          const isPlain = wordIndex !== active && !skipped?.has(wordIndex) && !isHit && !inRange && !inSegment && wordIndex <= readUpTo;
+          const word = (
             <span
               key={index}
-              ref={element.originalIndex === activeWordIndex ? activeWordRef : null}
-              className={`transition-all duration-200 ease-in-out ${
-                element.originalIndex === activeWordIndex
-                  ? 'text-black bg-yellow-300 rounded-md px-1'
-                  : 'text-gray-800'
+              data-word-index={wordIndex}
+              title={isFlagged ? `Confidence ${Math.round(element.confidence! * 100)}%` : bookmark ? bookmark.title : speaker?.name}
+              aria-current={wordIndex === active ? 'true' : undefined}
+              style={speaker && isPlain ? { color: speaker.color } : undefined}
+              className={`${animate ? 'transition-all duration-200 ease-in-out' : ''} ${
+                wordIndex === active
+                  ? `${theme.active} rounded-md px-1`
+                  : skipped?.has(wordIndex) ? 'text-red-700 bg-red-50 line-through decoration-red-300'
+                  : isCurrentHit ? 'text-gray-900 bg-orange-300'
+                  : isHit ? 'text-gray-900 bg-orange-100'
+                  : inRange ? theme.range
+                  : inSegment ? theme.segment
+                  : wordIndex > readUpTo ? theme.unread : theme.word
+              } ${wordIndex === selected ? 'outline outline-2 outline-yellow-600 rounded-md' : ''} ${
+                isFlagged ? 'underline decoration-wavy decoration-red-500' : ''
+              } ${bookmark ? 'border-b-2 border-sky-400' : ''} ${
+                clickable ? `cursor-pointer ${theme.hover} rounded-md` : ''
               }`}
             >
               {element.word}
             </span>
           );
+          return startsTurn ? <React.Fragment key={index}><SpeakerTag speaker={speaker!} />{word}</React.Fragment> : word;
         } else { // type === 'whitespace'
-          return <React.Fragment key={index}>{element.content}</React.Fragment>;
+          // Shade the gaps inside the active segment too, so it reads as one block.
+          const inSegment = previousWordIndex >= segmentStart && previousWordIndex < segmentEnd
+            && !element.content.includes('\n');
+          return inSegment
+            ? <span key={index} className={theme.segment}>{element.content}</span>
+            : <React.Fragment key={index}>{element.content}</React.Fragment>;
         }
       })}
+    </>
+  );
+});
+
+const TextViewer: React.FC<TextViewerProps> = ({
+  viewElements,
+  activeWordIndex,
+  direction = 'rtl',
+  language,
+  selectedWordIndex = -1,
+  rangeHighlight = null,
+  highlightMode = 'word',
+  activeSegment = null,
+  parallelText = null,
+  reviewThreshold = null,
+  skippedWords = null,
+  speakers = null,
+  searchHits = null,
+  currentSearchHit = null,
+  bookmarks = null,
+  readerSettings = null,
+  onWordClick,
+  onSelectRange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isParallel = !!parallelText;
+  const theme = THEME_CLASSES[readerSettings?.theme ?? 'light'];
+  const animate = !readerSettings?.reducedMotion;
+  const scrollBehavior: ScrollBehavior = animate ? 'smooth' : 'auto';
+  const guide = readerSettings?.readingGuide ?? 'off';
+  // The active word's line, in container coordinates, for the reading ruler and focus mask.
+  const [guideLine, setGuideLine] = useState<{ top: number; height: number } | null>(null);
+  const chunks = useMemo(
+    () => (isParallel ? buildSentenceChunks(viewElements) : buildChunks(viewElements)),
+    [viewElements, isParallel],
+  );
+
+  const skippedSet = useMemo(() => (skippedWords?.length ? new Set(skippedWords) : null), [skippedWords]);
+
+  const hitWords = useMemo(() => {
+    const words = new Set<number>();
+    searchHits?.forEach(hit => { for (let i = hit.start; i <= hit.end; i++) words.add(i); });
+    return words;
+  }, [searchHits]);
+
+  const bookmarkedWords = useMemo(() => {
+    const words = new Map<number, Bookmark>();
+    bookmarks?.forEach(bookmark => { for (let i = bookmark.start; i <= bookmark.end; i++) if (!words.has(i)) words.set(i, bookmark); });
+    return words;
+  }, [bookmarks]);
+
+  const speakerMap = useMemo(() => (speakers?.length ? new Map(speakers.map(s => [s.id, s])) : undefined), [speakers]);
+  const speakerOfWord = useMemo(() => {
+    const map = new Map<number, string>();
+    if (speakerMap) viewElements.forEach(el => { if (el.type === 'word' && el.speaker) map.set(el.originalIndex, el.speaker); });
+    return map;
+  }, [viewElements, speakerMap]);
+
+  useEffect(() => {
+    const activeWord = containerRef.current?.querySelector(`[data-word-index="${activeWordIndex}"]`);
+    activeWord?.scrollIntoView({
+      behavior: scrollBehavior,
+      block: 'center',
+      inline: 'nearest',
+    });
+  }, [activeWordIndex]);
+
+  useLayoutEffect(() => {
+    const activeWord = guide !== 'off' && activeWordIndex >= 0
+      ? containerRef.current?.querySelector<HTMLElement>(`[data-word-index="${activeWordIndex}"]`)
+      : null;
+    if (!activeWord || !readerSettings) {
+      setGuideLine(null);
+      return;
+    }
+    const height = readerSettings.fontSize * readerSettings.lineHeight;
+    setGuideLine({ top: activeWord.offsetTop + activeWord.offsetHeight / 2 - height / 2, height });
+  }, [activeWordIndex, guide, readerSettings, viewElements, parallelText]);
+
+  useEffect(() => {
+    if (!currentSearchHit) return;
+    containerRef.current?.querySelector(`[data-word-index="${currentSearchHit.start}"]`)
+      ?.scrollIntoView({ behavior: scrollBehavior, block: 'center', inline: 'nearest' });
+  }, [currentSearchHit]);
+
+  const handleClick = (event: React.MouseEvent) => {
+    const word = (event.target as HTMLElement).closest<HTMLElement>('[data-word-index]');
+    if (onWordClick && word) onWordClick(Number(word.dataset.wordIndex), event);
+  };
+
+  // Turns a mouse text selection into a word range (e.g. for A-B looping).
+  const handleMouseUp = () => {
+    const selection = window.getSelection();
+    if (!onSelectRange || !selection || selection.isCollapsed || !containerRef.current) return;
+    const range = selection.getRangeAt(0);
+    const indices: number[] = [];
+    containerRef.current.querySelectorAll<HTMLElement>('[data-word-index]').forEach(span => {
+      if (range.intersectsNode(span)) indices.push(Number(span.dataset.wordIndex));
+    });
+    if (indices.length > 1) {
+      onSelectRange({ start: Math.min(...indices), end: Math.max(...indices) });
+      selection.removeAllRanges();
+    }
+  };
+
+  const renderChunk = (chunk: Chunk, index: number) => {
+    // Only pass values that change for this chunk, so the others skip re-rendering.
+    const within = (wordIndex: number) => (wordIndex > chunk.before && wordIndex <= chunk.last ? wordIndex : -1);
+    const clip = (range: WordRange | null) => (range && range.end >= chunk.before && range.start <= chunk.last
+      ? [Math.max(range.start, chunk.before), Math.min(range.end, chunk.last)]
+      : [0, -1]);
+    const [rangeStart, rangeEnd] = clip(rangeHighlight);
+    const [segmentStart, segmentEnd] = clip(activeSegment);
+    const [hitStart, hitEnd] = clip(currentSearchHit);
+    const touches = (ranges: WordRange[] | null) => !!ranges?.some(r => r.end > chunk.before && r.start <= chunk.last);
+    return (
+      <TextChunk
+        key={index}
+        elements={chunk.elements}
+        before={chunk.before}
+        active={within(activeWordIndex)}
+        selected={within(selectedWordIndex)}
+        rangeStart={rangeStart}
+        rangeEnd={rangeEnd}
+        segmentStart={segmentStart}
+        segmentEnd={segmentEnd}
+        readUpTo={highlightMode === 'progress' ? Math.max(chunk.before, Math.min(activeWordIndex, chunk.last)) : chunk.last}
+        reviewThreshold={reviewThreshold ?? 0}
+        skipped={skippedWords?.some(i => i > chunk.before && i <= chunk.last) ? skippedSet! : undefined}
+        speakers={speakerMap}
+        speakerBefore={speakerOfWord.get(chunk.before)}
+        hits={touches(searchHits) ? hitWords : undefined}
+        hitStart={hitStart}
+        hitEnd={hitEnd}
+        bookmarked={touches(bookmarks) ? bookmarkedWords : undefined}
+        theme={theme}
+        animate={animate}
+        clickable={!!onWordClick}
+      />
+    );
+  };
+
+  // Mixed-direction runs and numbers are ordered by the browser's bidi algorithm within `dir`.
+  return (
+    <div
+      ref={containerRef}
+      onClick={handleClick}
+      onMouseUp={handleMouseUp}
+      dir={direction}
+      lang={language}
+      className={`${theme.container} relative p-6 rounded-lg border ${readerSettings ? '' : 'text-3xl md:text-4xl'} font-medium`}
+      style={readerSettings ? {
+        fontFamily: readerFontStack(readerSettings.fontFamily),
+        fontSize: `${readerSettings.fontSize}px`,
+        lineHeight: String(readerSettings.lineHeight),
+        letterSpacing: `${readerSettings.letterSpacing}em`,
+        wordSpacing: `${readerSettings.wordSpacing}em`,
+        whiteSpace: 'pre-wrap',
+        textAlign: 'start',
+      } : { lineHeight: '2', whiteSpace: 'pre-wrap', textAlign: 'start' }}
+      role="region"
+      aria-label="Transcript"
+    >
+      {parallelText
+        ? chunks.map((chunk, index) => {
+            const isCurrent = activeWordIndex > chunk.before && activeWordIndex <= chunk.last;
+            const translationClass = `${parallelText.layout === 'interlinear' ? 'mt-1 mb-4' : 'py-2'} text-xl rounded-md ${animate ? 'transition-colors duration-200' : ''} ${
+              isCurrent ? theme.translationCurrent : theme.translation
+            }`;
+            return (
+              <div key={index} className={parallelText.layout === 'side-by-side' ? 'grid grid-cols-2 gap-x-6 items-start' : ''}>
+                <div className={parallelText.layout === 'side-by-side' ? 'py-2' : ''}>{renderChunk(chunk, index)}</div>
+                <div data-sentence-index={index} dir={parallelText.direction} lang={parallelText.language} className={translationClass}>
+                  {parallelText.segments[index] ?? ''}
+                </div>
+              </div>
+            );
+          })
+        : chunks.map(renderChunk)}
+      {guideLine && guide === 'ruler' && (
+        <div
+          aria-hidden="true"
+          className={`absolute inset-x-0 pointer-events-none ${theme.guide} ${animate ? 'transition-[top] duration-200' : ''}`}
+          style={{ top: guideLine.top, height: guideLine.height }}
+        />
+      )}
+      {guideLine && guide === 'mask' && (
+        <>
+          <div aria-hidden="true" className={`absolute inset-x-0 top-0 pointer-events-none rounded-t-lg ${theme.mask}`} style={{ height: Math.max(0, guideLine.top) }} />
+          <div aria-hidden="true" className={`absolute inset-x-0 bottom-0 pointer-events-none rounded-b-lg ${theme.mask}`} style={{ top: guideLine.top + guideLine.height }} />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,301 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { decodeAudio } from '../services/audioUtils';
+import { computeWaveform, drawWaveform, type Waveform } from '../services/waveform';
+import { mergeWithNext, moveWord, nudgeBoundary, setBoundary, splitWord } from '../services/timingEdits';
+import { LoadingIcon } from '../constants';
+import type { WordTiming } from '../types';
+
+interface TimingEditorProps {
+  audio: Blob;
+  audioRef: React.RefObject<HTMLAudioElement>;
+  timings: WordTiming[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onChange: (timings: WordTiming[]) => void;
+  getSeparator: (index: number) => string;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+type DragMode = 'start' | 'end' | 'move';
+
+interface DragState {
+  index: number;
+  mode: DragMode;
+  originX: number;
+  original: WordTiming[];
+}
+
+const WAVEFORM_HEIGHT = 120;
+const ZOOM_LEVELS = [25, 50, 100, 200, 400];
+const SMALL_STEP = 0.01;
+const LARGE_STEP = 0.1;
+
+const toolbarButton = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const TimingEditor: React.FC<TimingEditorProps> = ({
+  audio, audioRef, timings, selectedIndex, onSelect, onChange, getSeparator, onUndo, onRedo, canUndo, canRedo,
+}) => {
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [zoomLevel, setZoomLevel] = useState(2);
+  const [viewport, setViewport] = useState({ scrollLeft: 0, width: 0 });
+  const [draft, setDraft] = useState<WordTiming[] | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Undoes the listeners of the current "play selected word", if one is running.
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+
+  const pixelsPerSecond = ZOOM_LEVELS[zoomLevel];
+  const duration = waveform?.duration ?? audioRef.current?.duration ?? 0;
+  const shown = draft ?? timings;
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    setDecodeError(null);
+    decodeAudio(audio)
+      .then(buffer => { if (!cancelled) setWaveform(computeWaveform(buffer)); })
+      .catch(err => {
+        console.error("Error decoding audio for waveform:", err);
+        if (!cancelled) setDecodeError('Could not decode the audio to draw its waveform.');
+      });
+    return () => { cancelled = true; };
+  }, [audio]);
+
+  // Track the visible window so only that part of the waveform and regions is drawn.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const update = () => setViewport({ scrollLeft: el.scrollLeft, width: el.clientWidth });
+    update();
+    el.addEventListener('scroll', update);
+    window.addEventListener('resize', update);
+    return () => {
+      el.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [waveform]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !waveform) return;
+    canvas.width = viewport.width;
+    canvas.height = WAVEFORM_HEIGHT;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawWaveform(ctx, waveform, viewport.scrollLeft / pixelsPerSecond, pixelsPerSecond, '#9ca3af');
+  }, [waveform, viewport, pixelsPerSecond]);
+
+  // Playhead follows the audio element without re-rendering the component.
+  useEffect(() => {
+    let frameId: number;
+    const tick = () => {
+      const audioEl = audioRef.current;
+      if (audioEl && playheadRef.current) {
+        playheadRef.current.style.left = `${audioEl.currentTime * pixelsPerSecond}px`;
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [audioRef, pixelsPerSecond]);
+
+  // Bring the selected word into view, e.g. after it was clicked in the text viewer.
+  useEffect(() => {
+    const el = scrollRef.current;
+    const word = timings[selectedIndex];
+    if (!el || !word) return;
+    const left = word.start * pixelsPerSecond;
+    const right = word.end * pixelsPerSecond;
+    if (left < el.scrollLeft || right > el.scrollLeft + el.clientWidth) {
+      el.scrollLeft = Math.max(0, left - el.clientWidth / 3);
+    }
+  }, [selectedIndex, pixelsPerSecond]);
+
+  const stopPreview = () => {
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = null;
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const seek = (time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+  };
+
+  const selectWord = (index: number) => {
+    const clamped = Math.max(0, Math.min(timings.length - 1, index));
+    onSelect(clamped);
+    seek(timings[clamped].start);
+  };
+
+  const playSelected = () => {
+    const audioEl = audioRef.current;
+    const word = timings[selectedIndex];
+    if (!audioEl || !word) return;
+    stopPreview();
+    audioEl.currentTime = word.start;
+    const stopAtEnd = () => {
+      if (audioEl.currentTime < word.end) return;
+      stopPreview();
+      audioEl.pause();
+    };
+    // Pausing, or seeking away from the word, hands playback back to the user.
+    const handleSeeking = () => {
+      if (audioEl.currentTime < word.start - 0.05 || audioEl.currentTime > word.end) stopPreview();
+    };
+    audioEl.addEventListener('timeupdate', stopAtEnd);
+    audioEl.addEventListener('seeking', handleSeeking);
+    audioEl.addEventListener('pause', stopPreview);
+    stopPreviewRef.current = () => {
+      audioEl.removeEventListener('timeupdate', stopAtEnd);
+      audioEl.removeEventListener('seeking', handleSeeking);
+      audioEl.removeEventListener('pause', stopPreview);
+    };
+    audioEl.play().catch(err => {
+      stopPreview();
+      console.warn("Could not play the selected word:", err);
+    });
+  };
+
+  const handleSplit = () => {
+    if (selectedIndex < 0) return;
+    onChange(splitWord(timings, selectedIndex, audioRef.current?.currentTime));
+  };
+
+  const handleMerge = () => {
+    if (selectedIndex < 0 || selectedIndex >= timings.length - 1) return;
+    onChange(mergeWithNext(timings, selectedIndex, getSeparator(selectedIndex)));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const step = event.shiftKey ? LARGE_STEP : SMALL_STEP;
+    const key = event.key.toLowerCase();
+    if ((event.ctrlKey || event.metaKey) && key === 'z') {
+      event.shiftKey ? onRedo() : onUndo();
+    } else if ((event.ctrlKey || event.metaKey) && key === 'y') {
+      onRedo();
+    } else if (event.key === 'ArrowLeft') {
+      selectWord(selectedIndex - 1);
+    } else if (event.key === 'ArrowRight') {
+      selectWord(selectedIndex + 1);
+    } else if (selectedIndex < 0) {
+      return;
+    } else if (key === 'q' || key === 'w') {
+      onChange(nudgeBoundary(timings, selectedIndex, 'start', key === 'q' ? -step : step, duration));
+    } else if (key === 'o' || key === 'p') {
+      onChange(nudgeBoundary(timings, selectedIndex, 'end', key === 'o' ? -step : step, duration));
+    } else if (key === 's') {
+      handleSplit();
+    } else if (key === 'm') {
+      handleMerge();
+    } else if (event.key === ' ') {
+      playSelected();
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, index: number, mode: DragMode) => {
+    event.stopPropagation();
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    dragRef.current = { index, mode, originX: event.clientX, original: timings };
+    onSelect(index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const delta = (event.clientX - drag.originX) / pixelsPerSecond;
+    const word = drag.original[drag.index];
+    setDraft(drag.mode === 'move'
+      ? moveWord(drag.original, drag.index, delta, duration)
+      : setBoundary(drag.original, drag.index, drag.mode, word[drag.mode] + delta, duration));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draft) onChange(draft);
+    setDraft(null);
+  };
+
+  const handleTrackClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    seek((event.clientX - rect.left) / pixelsPerSecond);
+  };
+
+  const visibleFrom = viewport.scrollLeft / pixelsPerSecond;
+  const visibleTo = (viewport.scrollLeft + viewport.width) / pixelsPerSecond;
+  const selected = shown[selectedIndex];
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4 focus:outline-none focus:ring-2 focus:ring-yellow-500" tabIndex={0} onKeyDown={handleKeyDown} aria-label="Timing editor">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <button className={toolbarButton} onClick={onUndo} disabled={!canUndo} aria-label="Undo">Undo</button>
+        <button className={toolbarButton} onClick={onRedo} disabled={!canRedo} aria-label="Redo">Redo</button>
+        <button className={toolbarButton} onClick={handleSplit} disabled={selectedIndex < 0}>Split</button>
+        <button className={toolbarButton} onClick={handleMerge} disabled={selectedIndex < 0 || selectedIndex >= timings.length - 1}>Merge with next</button>
+        <button className={toolbarButton} onClick={playSelected} disabled={selectedIndex < 0}>Play word</button>
+        <span className="mx-2 text-gray-300">|</span>
+        <button className={toolbarButton} onClick={() => setZoomLevel(z => Math.max(0, z - 1))} disabled={zoomLevel === 0} aria-label="Zoom out">−</button>
+        <button className={toolbarButton} onClick={() => setZoomLevel(z => Math.min(ZOOM_LEVELS.length - 1, z + 1))} disabled={zoomLevel === ZOOM_LEVELS.length - 1} aria-label="Zoom in">+</button>
+        {selected && (
+          <span className="ml-auto text-sm text-gray-600 tabular-nums">
+            <strong className="text-gray-900">{selected.word}</strong> {selected.start.toFixed(2)}s – {selected.end.toFixed(2)}s
+          </span>
+        )}
+      </div>
+
+      {decodeError && <p className="text-sm text-red-700">{decodeError}</p>}
+      {!waveform && !decodeError && <div className="flex justify-center py-8"><LoadingIcon size={32} /></div>}
+      {waveform && (
+        <div ref={scrollRef} className="relative overflow-x-auto overflow-y-hidden" style={{ height: WAVEFORM_HEIGHT + 16 }}>
+          <div
+            className="relative"
+            style={{ width: Math.ceil(duration * pixelsPerSecond), height: WAVEFORM_HEIGHT }}
+            onClick={handleTrackClick}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <canvas ref={canvasRef} className="absolute top-0 pointer-events-none" style={{ left: viewport.scrollLeft }} />
+            {shown.map((timing, index) => {
+              if (timing.end < visibleFrom || timing.start > visibleTo) return null;
+              const isSelected = index === selectedIndex;
+              return (
+                <div
+                  key={index}
+                  className={`absolute top-0 h-full border-x cursor-grab select-none ${
+                    isSelected ? 'bg-yellow-300/50 border-yellow-600 z-10' : 'bg-yellow-200/25 border-yellow-400/70 hover:bg-yellow-200/40'
+                  }`}
+                  style={{ left: timing.start * pixelsPerSecond, width: Math.max(2, (timing.end - timing.start) * pixelsPerSecond) }}
+                  onPointerDown={e => handlePointerDown(e, index, 'move')}
+                  onClick={e => { e.stopPropagation(); selectWord(index); }}
+                  title={`${timing.word} (${timing.start.toFixed(2)}s – ${timing.end.toFixed(2)}s)`}
+                >
+                  <div className="absolute left-0 top-0 h-full w-2 -ml-1 cursor-ew-resize" onPointerDown={e => handlePointerDown(e, index, 'start')} />
+                  <span className="block px-1 pt-1 text-xs text-gray-800 truncate pointer-events-none" dir="auto">{timing.word}</span>
+                  <div className="absolute right-0 top-0 h-full w-2 -mr-1 cursor-ew-resize" onPointerDown={e => handlePointerDown(e, index, 'end')} />
+                </div>
+              );
+            })}
+            <div ref={playheadRef} className="absolute top-0 h-full w-px bg-red-500 pointer-events-none z-20" />
+          </div>
+        </div>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        Drag regions or their edges to adjust. Keys: ←/→ select word, Q/W nudge start, O/P nudge end (Shift for larger steps), S split, M merge, Space play word, Ctrl+Z / Ctrl+Shift+Z undo/redo.
+      </p>
+    </div>
+  );
+};
+
+export default TimingEditor;
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { TimingIssue, TimingIssueSeverity } from '../types';
+
+interface TimingIssuesReportProps {
+  issues: TimingIssue[];
+  onSelectWord?: (index: number) => void;
+}
+
+const SEVERITY_STYLES: Record<TimingIssueSeverity, string> = {
+  info: 'text-gray-500',
+  warning: 'text-amber-800',
+  error: 'text-red-700',
+};
+
+const TimingIssuesReport: React.FC<TimingIssuesReportProps> = ({ issues, onSelectWord }) => {
+  if (!issues.length) return null;
+  const warnings = issues.filter(i => i.severity !== 'info').length;
+
+  return (
+    <details className="mb-4 rounded-lg border border-gray-300 bg-gray-50 p-3 text-sm text-gray-700">
+      <summary className="cursor-pointer font-medium text-gray-800">
+        Timing check: {issues.length} {issues.length === 1 ? 'repair' : 'repairs'}
+        {warnings > 0 && <span className="text-amber-800"> ({warnings} {warnings === 1 ? 'warning' : 'warnings'})</span>}
+      </summary>
+      <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-200">
+        {issues.map((issue, index) => (
+          <li key={index} className={`py-1 ${SEVERITY_STYLES[issue.severity]}`} dir="auto">
+            {issue.wordIndex !== undefined && onSelectWord ? (
+              <button className="text-left hover:underline" onClick={() => onSelectWord(issue.wordIndex!)}>{issue.message}</button>
+            ) : issue.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default TimingIssuesReport;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ALIGNERS } from '../services/aligners';
+import { AlignmentError } from '../services/errors';
+import { LANGUAGES } from '../services/language';
+import type { Aligner, TextSegment, Translation } from '../types';
+
+interface TranslationPanelProps {
+  translation: Translation | null;
+  sentences: TextSegment[];
+  sourceLanguage: string;
+  onChange: (translation: Translation | null) => void;
+}
+
+const fieldClass = 'px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+const buttonClass = 'px-3 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm transition-colors duration-200 disabled:opacity-50';
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ translation, sentences, sourceLanguage, onChange }) => {
+  const [text, setText] = useState(translation?.text ?? '');
+  const [language, setLanguage] = useState(translation?.language ?? (sourceLanguage === 'en' ? 'ar' : 'en'));
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAlign = async (aligner: Aligner) => {
+    if (!text.trim()) return;
+    setBusy(aligner.id);
+    setError(null);
+    try {
+      const segments = await aligner.alignTranslation({
+        sources: sentences.map(sentence => sentence.text),
+        translation: text,
+        sourceLanguage,
+        targetLanguage: language,
+      });
+      onChange({ text, language, segments });
+    } catch (err) {
+      console.error("Error aligning translation:", err);
+      setError(err instanceof AlignmentError ? err.message : 'Could not align the translation.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLanguageChange = (code: string) => {
+    setLanguage(code);
+    if (translation) onChange({ ...translation, language: code });
+  };
+
+  const handleSegmentChange = (index: number, value: string) => {
+    if (!translation) return;
+    const segments = sentences.map((_, i) => translation.segments[i] ?? '');
+    segments[index] = value;
+    onChange({ ...translation, segments });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3 text-gray-600">
+        <label className="flex items-center gap-2">
+          Translation language
+          <select className={fieldClass} value={language} onChange={e => handleLanguageChange(e.target.value)}>
+            {LANGUAGES.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+          </select>
+        </label>
+        {translation && (
+          <button className={buttonClass} onClick={() => onChange(null)}>Remove translation</button>
+        )}
+      </div>
+      <textarea
+        rows={4}
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder="Paste the translation here..."
+        lang={language}
+        dir="auto"
+        className="w-full p-3 rounded-lg bg-white border border-gray-300 focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">Pair with sentences:</span>
+        {ALIGNERS.filter(aligner => aligner.isAvailable()).map(aligner => (
+          <button key={aligner.id} className={buttonClass} onClick={() => handleAlign(aligner)} disabled={!!busy || !text.trim()}>
+            {busy === aligner.id ? 'Aligning…' : aligner.requiresNetwork ? `Align with ${aligner.label}` : 'Pair by position'}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-red-700">{error}</p>}
+      {translation && (
+        <ol className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {sentences.map((sentence, index) => (
+            <li key={index} className="grid grid-cols-2 gap-3 p-2 items-start">
+              <span className="text-gray-800" dir="auto">{sentence.text}</span>
+              <input
+                className={fieldClass}
+                value={translation.segments[index] ?? ''}
+                onChange={e => handleSegmentChange(index, e.target.value)}
+                lang={translation.language}
+                dir="auto"
+                aria-label={`Translation of sentence ${index + 1}`}
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { clearAlignmentCache } from '../services/alignmentCache';
+import { clearUsageLog, loadUsageLog, summarizeUsage, usageInWindow } from '../services/usage';
+import type { UsageLimits } from '../types';
+
+interface UsagePanelProps {
+  limits: UsageLimits;
+  onLimitsChange: (limits: UsageLimits) => void;
+}
+
+const fieldClass = 'w-24 px-2 py-1 rounded border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+
+const formatMinutes = (seconds: number) => (seconds / 60).toFixed(1);
+
+const LIMIT_FIELDS: { key: keyof UsageLimits; label: string }[] = [
+  { key: 'requestsPerDay', label: 'Requests' },
+  { key: 'audioMinutesPerDay', label: 'Audio minutes' },
+  { key: 'tokensPerDay', label: 'Estimated tokens' },
+];
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ limits, onLimitsChange }) => {
+  // The log changes with every request, so it is read again whenever the panel is opened.
+  const [records, setRecords] = useState(loadUsageLog);
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const today = usageInWindow(records);
+  const projects = summarizeUsage(records);
+  const used: Record<keyof UsageLimits, number> = {
+    requestsPerDay: today.requests,
+    audioMinutesPerDay: today.audioSeconds / 60,
+    tokensPerDay: today.estimatedTokens,
+  };
+
+  const handleClearLog = () => {
+    clearUsageLog();
+    setRecords([]);
+  };
+
+  const handleClearCache = async () => {
+    await clearAlignmentCache();
+    setCacheCleared(true);
+  };
+
+  return (
+    <details
+      className="rounded-lg border border-gray-300 bg-gray-50 p-3 text-sm text-gray-700"
+      onToggle={e => { if (e.currentTarget.open) setRecords(loadUsageLog()); }}
+    >
+      <summary className="cursor-pointer font-medium text-gray-800">
+        Usage &amp; limits ({today.requests} request{today.requests === 1 ? '' : 's'} in the last 24 hours)
+      </summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <p className="text-gray-600">
+          Requests to cloud backends are counted here, with rough token estimates. Aligning the same audio and transcript
+          again reuses the saved result and sends nothing.
+        </p>
+        <div className="flex flex-wrap gap-4">
+          {LIMIT_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1">
+              <span>{label} per 24 hours <span className="text-gray-500">(used {Math.round(used[key]).toLocaleString()})</span></span>
+              <input
+                type="number"
+                min={0}
+                className={fieldClass}
+                value={limits[key] ?? ''}
+                placeholder="No limit"
+                onChange={e => onLimitsChange({ ...limits, [key]: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+              />
+            </label>
+          ))}
+        </div>
+        {projects.length > 0 && (
+          <table className="w-full text-start">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="text-start font-medium py-1">Project</th>
+                <th className="text-end font-medium">Requests</th>
+                <th className="text-end font-medium">Audio min</th>
+                <th className="text-end font-medium">Est. tokens</th>
+                <th className="text-end font-medium">Cache hits</th>
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {projects.map(project => (
+                <tr key={project.project} className="border-t border-gray-200">
+                  <td className="py-1 pe-2 break-all" dir="auto">{project.project}</td>
+                  <td className="text-end">{project.requests}</td>
+                  <td className="text-end">{formatMinutes(project.audioSeconds)}</td>
+                  <td className="text-end">{project.estimatedTokens.toLocaleString()}</td>
+                  <td className="text-end">{project.cacheHits}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex gap-4">
+          <button className="text-gray-600 hover:underline disabled:opacity-50" onClick={handleClearLog} disabled={!records.length}>Clear usage log</button>
+          <button className="text-gray-600 hover:underline disabled:opacity-50" onClick={handleClearCache} disabled={cacheCleared}>
+            {cacheCleared ? 'Saved alignments cleared' : 'Clear saved alignments'}
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default UsagePanel;
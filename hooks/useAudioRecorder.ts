@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type RecorderStatus = 'idle' | 'requesting' | 'recording' | 'recorded';
+
+export interface AudioRecorder {
+  status: RecorderStatus;
+  // Input level, 0..1, while recording.
+  level: number;
+  elapsed: number;
+  recording: Blob | null;
+  error: string | null;
+  start: () => Promise<void>;
+  stop: () => void;
+  discard: () => void;
+}
+
+// Levels below this many dB under full scale show as an empty meter.
+const METER_FLOOR_DB = -60;
+
+export const isRecordingSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+export const useAudioRecorder = (): AudioRecorder => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const release = useCallback(() => {
+    cleanupRef.current?.();
+    cleanupRef.current = null;
+    setLevel(0);
+  }, []);
+
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder?.state === 'recording') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    release();
+  }, [release]);
+
+  const start = useCallback(async () => {
+    setError(null);
+    setRecording(null);
+    setElapsed(0);
+    setStatus('requesting');
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (err) {
+      console.error("Error opening the microphone:", err);
+      setError('Could not access the microphone. Check the browser permission and try again.');
+      setStatus('idle');
+      return;
+    }
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const frame = new Float32Array(analyser.fftSize);
+    const startedAt = performance.now();
+    let animationFrameId = 0;
+    const measure = () => {
+      analyser.getFloatTimeDomainData(frame);
+      let sum = 0;
+      for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+      const db = 20 * Math.log10(Math.sqrt(sum / frame.length) + 1e-10);
+      setLevel(Math.max(0, Math.min(1, 1 - db / METER_FLOOR_DB)));
+      setElapsed((performance.now() - startedAt) / 1000);
+      animationFrameId = requestAnimationFrame(measure);
+    };
+    animationFrameId = requestAnimationFrame(measure);
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+    recorder.onstop = () => {
+      release();
+      setRecording(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      setStatus('recorded');
+    };
+    recorderRef.current = recorder;
+    cleanupRef.current = () => {
+      cancelAnimationFrame(animationFrameId);
+      stream.getTracks().forEach(track => track.stop());
+      context.close().catch(() => {});
+    };
+    recorder.start();
+    setStatus('recording');
+  }, [release]);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  // Drops the take without waiting for the recorder to hand over its data.
+  const discard = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.onstop = null;
+      if (recorder.state === 'recording') recorder.stop();
+    }
+    release();
+    setRecording(null);
+    setElapsed(0);
+    setStatus('idle');
+  }, [release]);
+
+  return { status, level, elapsed, recording, error, start, stop, discard };
+};
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { findRangeIndex } from '../services/segmentation';
+import type { Timeline } from '../services/timeline';
+import type { WordRange, WordTiming } from '../types';
+
+export const PLAYBACK_RATES = [0.5, 0.6, 0.75, 0.9, 1, 1.25, 1.5];
+export const REPEAT_COUNTS = [1, 2, 3, 5, 10];
+
+// Going to the "previous" sentence restarts the current one if we're this far into it.
+const RESTART_THRESHOLD_SECONDS = 1;
+
+export interface PlaybackControls {
+  rate: number;
+  setRate: (rate: number) => void;
+  loopRange: WordRange | null;
+  setLoopRange: (range: WordRange | null) => void;
+  repeatCount: number;
+  setRepeatCount: (count: number) => void;
+  seekToWord: (index: number) => void;
+  seekToTime: (time: number) => void;
+  previousSentence: () => void;
+  nextSentence: () => void;
+  // Call on every position update; enforces A-B loops and sentence repeats.
+  handleTime: (time: number, activeWordIndex: number) => void;
+  // Pass to the <audio> element's onLoadedMetadata: loading a source resets the element's rate.
+  applyRate: () => void;
+}
+
+export const usePlaybackControls = (
+  audioRef: RefObject<HTMLAudioElement | null>,
+  wordTimings: WordTiming[],
+  timeline: Timeline,
+  sentenceRanges: WordRange[],
+  // While suspended (a real-time video export), loops and repeats are ignored and audio plays at 1x;
+  // the chosen settings take effect again once it resumes.
+  suspended = false,
+): PlaybackControls => {
+  const [rate, setRateState] = useState(1);
+  const [loopRange, setLoopRange] = useState<WordRange | null>(null);
+  const [repeatCount, setRepeatCount] = useState(1);
+  const repeatRef = useRef<{ sentence: number; played: number }>({ sentence: -1, played: 0 });
+
+  const playbackRate = suspended ? 1 : rate;
+
+  const applyRate = useCallback(() => {
+    const audioEl = audioRef.current;
+    if (!audioEl) return;
+    audioEl.defaultPlaybackRate = playbackRate;
+    audioEl.playbackRate = playbackRate;
+    audioEl.preservesPitch = true;
+  }, [audioRef, playbackRate]);
+
+  useEffect(applyRate, [applyRate]);
+
+  const seekToTime = useCallback((time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = Math.max(0, time);
+  }, [audioRef]);
+
+  const seekToWord = useCallback((index: number) => {
+    const timing = wordTimings[index];
+    if (timing) seekToTime(timing.start);
+  }, [wordTimings, seekToTime]);
+
+  const currentSentence = () => {
+    const wordIndex = timeline.lastStartedAt(audioRef.current?.currentTime ?? 0);
+    return Math.max(0, findRangeIndex(sentenceRanges, Math.max(0, wordIndex)));
+  };
+
+  const previousSentence = () => {
+    const index = currentSentence();
+    const range = sentenceRanges[index];
+    if (!range) return;
+    const time = audioRef.current?.currentTime ?? 0;
+    const restart = time - wordTimings[range.start].start > RESTART_THRESHOLD_SECONDS;
+    const target = sentenceRanges[restart ? index : Math.max(0, index - 1)];
+    repeatRef.current = { sentence: -1, played: 0 };
+    seekToWord(target.start);
+  };
+
+  const nextSentence = () => {
+    const target = sentenceRanges[currentSentence() + 1];
+    repeatRef.current = { sentence: -1, played: 0 };
+    if (target) seekToWord(target.start);
+  };
+
+  const handleTime = (time: number, activeWordIndex: number) => {
+    if (suspended) return;
+    if (loopRange) {
+      const from = wordTimings[loopRange.start];
+      const to = wordTimings[loopRange.end];
+      if (from && to && (time >= to.end || time < from.start - 0.05)) seekToTime(from.start);
+      return;
+    }
+    if (repeatCount <= 1) return;
+    // When the tracked sentence's last word ends, jump back until it has played `repeatCount` times.
+    const tracked = repeatRef.current;
+    const trackedRange = sentenceRanges[tracked.sentence];
+    if (trackedRange && tracked.played < repeatCount && time >= wordTimings[trackedRange.end].end - 0.05) {
+      tracked.played++;
+      seekToTime(wordTimings[trackedRange.start].start);
+      return;
+    }
+    const sentence = activeWordIndex >= 0 ? findRangeIndex(sentenceRanges, activeWordIndex) : -1;
+    if (sentence >= 0 && sentence !== tracked.sentence) {
+      repeatRef.current = { sentence, played: 1 };
+    }
+  };
+
+  return {
+    rate,
+    setRate: setRateState,
+    loopRange,
+    setLoopRange,
+    repeatCount,
+    setRepeatCount,
+    seekToWord,
+    seekToTime,
+    previousSentence,
+    nextSentence,
+    handleTime,
+    applyRate,
+  };
+};
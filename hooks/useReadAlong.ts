@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { normalizeWord } from '../services/arabicText';
+import { advanceReadAlong, INITIAL_READ_ALONG, readingPace, type ReadAlongState } from '../services/readAlong';
+import type { WordTiming } from '../types';
+
+// The Web Speech API is not in the DOM typings, and Chrome still prefixes it.
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const scope = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition ?? null;
+};
+
+export const isReadAlongSupported = () => !!getRecognitionConstructor();
+
+export interface ReadAlong extends ReadAlongState {
+  listening: boolean;
+  error: string | null;
+  // Reading speed relative to the reference recording (1 = same pace).
+  pace: number | null;
+  start: () => void;
+  stop: () => void;
+  // Restarts the practice from a word (0 for the beginning).
+  restartFrom: (index: number) => void;
+}
+
+const wordsOf = (transcript: string) => transcript.split(/\s+/).filter(Boolean);
+
+/**
+ * Practice mode: follows a student reading the transcript aloud with speech recognition and
+ * tracks the position against the reference timings, noting words that were skipped.
+ */
+export const useReadAlong = (wordTimings: WordTiming[], language: string): ReadAlong => {
+  const expected = useMemo(() => wordTimings.map(t => normalizeWord(t.word)), [wordTimings]);
+  const [committed, setCommitted] = useState<ReadAlongState>(INITIAL_READ_ALONG);
+  const [interim, setInterim] = useState<ReadAlongState | null>(null);
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pace, setPace] = useState<number | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const sessionRef = useRef({ from: 0, startedAt: 0 });
+  const committedRef = useRef(committed);
+  committedRef.current = committed;
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  const start = useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition || recognitionRef.current) return;
+    const recognition = new Recognition();
+    recognition.lang = language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.onresult = event => {
+      let state = committedRef.current;
+      let pending: string[] = [];
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const words = wordsOf(result[0].transcript);
+        if (result.isFinal) {
+          state = advanceReadAlong(state, expected, words);
+        } else {
+          pending = pending.concat(words);
+        }
+      }
+      committedRef.current = state;
+      setCommitted(state);
+      // Interim words move the highlight early, but are only kept once recognition settles.
+      const preview = pending.length ? advanceReadAlong(state, expected, pending) : null;
+      setInterim(preview);
+      const { from, startedAt } = sessionRef.current;
+      setPace(readingPace(wordTimings, from, (preview ?? state).position, (performance.now() - startedAt) / 1000));
+    };
+    recognition.onerror = event => {
+      // "no-speech" and "aborted" just end the session.
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        setError(event.error === 'not-allowed'
+          ? 'Microphone access was denied.'
+          : `Speech recognition stopped (${event.error}).`);
+      }
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setInterim(null);
+      setListening(false);
+    };
+    sessionRef.current = { from: committedRef.current.position, startedAt: performance.now() };
+    setError(null);
+    setPace(null);
+    recognitionRef.current = recognition;
+    recognition.start();
+    setListening(true);
+  }, [expected, language, wordTimings]);
+
+  const restartFrom = useCallback((index: number) => {
+    const state = { position: index, skipped: committedRef.current.skipped.filter(i => i < index) };
+    committedRef.current = state;
+    setCommitted(state);
+    setInterim(null);
+    setPace(null);
+    sessionRef.current = { from: index, startedAt: performance.now() };
+  }, []);
+
+  const current = interim ?? committed;
+  return { position: current.position, skipped: current.skipped, listening, error, pace, start, stop, restartFrom };
+};
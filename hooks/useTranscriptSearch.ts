@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { buildSearchIndex, nextHitFrom, searchTranscript } from '../services/search';
+import type { WordRange, WordTiming } from '../types';
+
+export interface TranscriptSearch {
+  query: string;
+  setQuery: (query: string) => void;
+  hits: WordRange[];
+  // Index into `hits`, -1 when there are none.
+  current: number;
+  currentHit: WordRange | null;
+  next: () => WordRange | null;
+  previous: () => WordRange | null;
+  clear: () => void;
+}
+
+// `fromWordIndex` is where a new query starts looking, so the first hit is the one after the reading position.
+export const useTranscriptSearch = (wordTimings: WordTiming[], fromWordIndex: number): TranscriptSearch => {
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(-1);
+  // Whether the reader has been taken to the current hit yet; the first "next" goes to it.
+  const [landed, setLanded] = useState(false);
+  const index = useMemo(() => buildSearchIndex(wordTimings), [wordTimings]);
+  const hits = useMemo(() => searchTranscript(index, query), [index, query]);
+
+  // Only a new result set repositions; moving through the audio does not.
+  useEffect(() => {
+    setCurrent(hits.length ? nextHitFrom(hits, Math.max(0, fromWordIndex)) : -1);
+    setLanded(false);
+  }, [hits]);
+
+  const step = useCallback((delta: number) => {
+    if (!hits.length) return null;
+    const from = Math.max(0, current);
+    const target = !landed && delta > 0 ? from : (from + delta + hits.length) % hits.length;
+    setCurrent(target);
+    setLanded(true);
+    return hits[target];
+  }, [hits, current, landed]);
+
+  return {
+    query,
+    setQuery,
+    hits,
+    current,
+    currentHit: hits[current] ?? null,
+    next: useCallback(() => step(1), [step]),
+    previous: useCallback(() => step(-1), [step]),
+    clear: useCallback(() => setQuery(''), []),
+  };
+};
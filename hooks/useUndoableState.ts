@@ -0,0 +1,71 @@
+import { useCallback, useState } from 'react';
+
+const HISTORY_LIMIT = 200;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface UndoableState<T> {
+  value: T;
+  past: T[];
+  future: T[];
+  set: (next: T) => void;
+  reset: (next: T) => void;
+  restore: (present: T, past: T[], future: T[]) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useUndoableState = <T,>(initial: T): UndoableState<T> => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T) => {
+    setHistory(h => (next === h.present ? h : {
+      past: [...h.past, h.present].slice(-HISTORY_LIMIT),
+      present: next,
+      future: [],
+    }));
+  }, []);
+
+  const reset = useCallback((next: T) => {
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  const restore = useCallback((present: T, past: T[], future: T[]) => {
+    setHistory({ past: past.slice(-HISTORY_LIMIT), present, future });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    past: history.past,
+    future: history.future,
+    set,
+    reset,
+    restore,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
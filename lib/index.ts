@@ -0,0 +1,20 @@
+// The alignment and export core without React or the DOM UI, for the CLI and other scripts.
+export * from '../types';
+export * from '../services/aligners';
+export * from '../services/audioUtils';
+export * from '../services/chunkedAlignment';
+export * from '../services/alignmentCache';
+export * from '../services/usage';
+export * from '../services/timingPipeline';
+export * from '../services/timingFormats';
+export * from '../services/confidence';
+export * from '../services/speakers';
+export * from '../services/assSubtitles';
+export * from '../services/errors';
+export * from '../services/language';
+export * from '../services/segmentation';
+export * from '../services/viewElements';
+export * from '../services/timeline';
+export * from '../services/translation';
+export * from '../services/exportSettings';
+export * from '../services/wav';
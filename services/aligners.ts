@@ -0,0 +1,16 @@
+import type { Aligner, AlignerId } from '../types';
+import { geminiAligner } from './geminiService';
+import { localAligner } from './localAligner';
+
+export const ALIGNERS: Aligner[] = [geminiAligner, localAligner];
+
+export const getAligner = (id: AlignerId): Aligner => {
+  const aligner = ALIGNERS.find(a => a.id === id);
+  if (!aligner) {
+    throw new Error(`Unknown aligner "${id}".`);
+  }
+  return aligner;
+};
+
+export const getDefaultAlignerId = (): AlignerId =>
+  (ALIGNERS.find(a => a.isAvailable()) ?? localAligner).id;
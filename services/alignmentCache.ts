@@ -0,0 +1,80 @@
+import type { Aligner, CachedAlignment } from '../types';
+import { ALIGNMENT_CACHE_STORE, getStore, request, withStore } from './database';
+
+// Bump when the cached shape or how keys are built changes, so old entries are never read.
+const CACHE_VERSION = 1;
+export const MAX_CACHE_ENTRIES = 200;
+
+// Where cached alignments live. The browser uses IndexedDB; the CLI keeps files.
+export interface AlignmentCacheStore {
+  get: (key: string) => Promise<CachedAlignment | undefined>;
+  put: (entry: CachedAlignment) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const indexedDbStore: AlignmentCacheStore = {
+  get: key => withStore<CachedAlignment | undefined>(ALIGNMENT_CACHE_STORE, 'readonly', store => store.get(key)),
+  put: async entry => {
+    await withStore(ALIGNMENT_CACHE_STORE, 'readwrite', store => store.put(entry));
+    // Drops the oldest entries beyond the cap; each one holds a full set of word timings.
+    const store = await getStore(ALIGNMENT_CACHE_STORE, 'readwrite');
+    const excess = (await request(store.count())) - MAX_CACHE_ENTRIES;
+    if (excess <= 0) return;
+    const keys = await request(store.index('createdAt').getAllKeys(null, excess));
+    keys.forEach(key => store.delete(key));
+  },
+  clear: async () => {
+    await withStore(ALIGNMENT_CACHE_STORE, 'readwrite', store => store.clear());
+  },
+};
+
+let cacheStore: AlignmentCacheStore | null = typeof indexedDB !== 'undefined' ? indexedDbStore : null;
+
+export const setAlignmentCacheStore = (store: AlignmentCacheStore | null) => {
+  cacheStore = store;
+};
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+// Whitespace and Unicode composition don't change the words the aligner sees, so they don't change the key.
+export const normalizeTranscript = (transcript: string) => transcript.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * Content-addressed key for one alignment: a SHA-256 of the audio bytes, combined with the
+ * normalized transcript, the backend and its model, and the language hint. Null when it can't be
+ * computed, e.g. `crypto.subtle` is missing on a page served over plain http from the LAN.
+ */
+export const getAlignmentCacheKey = async (audio: Blob, transcript: string, aligner: Aligner, language = ''): Promise<string | null> => {
+  try {
+    const audioHash = await sha256(await audio.arrayBuffer());
+    const parts = [CACHE_VERSION, audioHash, aligner.id, aligner.model, language, normalizeTranscript(transcript)];
+    return await sha256(new TextEncoder().encode(parts.join('\u0000')));
+  } catch (err) {
+    console.warn("Could not hash the alignment input; aligning without the cache:", err);
+    return null;
+  }
+};
+
+// The cache is an optimisation; a broken or full store, or a missing key, never fails an alignment.
+export const readCachedAlignment = async (key: string): Promise<CachedAlignment | null> => {
+  try {
+    return (await cacheStore?.get(key)) ?? null;
+  } catch (err) {
+    console.warn("Could not read the alignment cache:", err);
+    return null;
+  }
+};
+
+export const writeCachedAlignment = async (entry: CachedAlignment) => {
+  try {
+    await cacheStore?.put(entry);
+  } catch (err) {
+    console.warn("Could not save the alignment to the cache:", err);
+  }
+};
+
+export const clearAlignmentCache = async () => {
+  await cacheStore?.clear();
+};
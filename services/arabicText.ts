@@ -0,0 +1,52 @@
+
+// Harakat, shadda, sukun, superscript alef and Quranic annotation marks.
+const TASHKEEL = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const PUNCTUATION = /[\p{P}\p{S}]/gu;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+/**
+ * Folds the spelling variations that commonly differ between a transcript and a model's
+ * output: diacritics, tatweel, alef/hamza/ya/ta-marbuta variants, punctuation, digits and case.
+ */
+export const normalizeWord = (word: string): string =>
+  word
+    .normalize('NFKC')
+    .replace(TASHKEEL, '')
+    .replace(TATWEEL, '')
+    .replace(/[آأإٱٲٳ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/[ئىی]/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ک/g, 'ك')
+    .replace(ARABIC_INDIC_DIGITS, d => String(d.charCodeAt(0) & 0xf))
+    .replace(PUNCTUATION, '')
+    .toLowerCase();
+
+export const isWordLike = (token: string) => /[\p{L}\p{N}]/u.test(token);
+
+let rowBuffer = new Uint16Array(64);
+
+// Levenshtein similarity in 0..1 (1 = identical). Returns 0 early when it cannot reach `floor`.
+export const similarity = (a: string, b: string, floor = 0): number => {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (!a.length || !b.length || Math.min(a.length, b.length) / longest < floor) return 0;
+  if (rowBuffer.length < 2 * (b.length + 1)) rowBuffer = new Uint16Array(4 * (b.length + 1));
+  let previous = rowBuffer.subarray(0, b.length + 1);
+  let current = rowBuffer.subarray(b.length + 1, 2 * (b.length + 1));
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    const charA = a.charCodeAt(i - 1);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (charA === b.charCodeAt(j - 1) ? 0 : 1),
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+  return 1 - previous[b.length] / longest;
+};
@@ -0,0 +1,76 @@
+import type { ExportSettings, Speaker, TextDirection, WordTiming } from '../types';
+import { groupIntoCues } from './timingFormats';
+
+// ASS colours are &HAABBGGRR; this takes "#rrggbb".
+const toAssColor = (hex: string) => {
+  const value = hex.replace('#', '').padEnd(6, '0');
+  return `&H00${value.slice(4, 6)}${value.slice(2, 4)}${value.slice(0, 2)}`.toUpperCase();
+};
+
+// h:mm:ss.cc, with centiseconds.
+const formatAssTime = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(total / 360000);
+  const m = Math.floor(total / 6000) % 60;
+  const s = Math.floor(total / 100) % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${h}:${pad(m)}:${pad(s)}.${pad(total % 100)}`;
+};
+
+const escapeAss = (text: string) => text.replace(/\\/g, '\\\\').replace(/[{}]/g, '').replace(/\n/g, ' ');
+// The Name field is comma-separated like the rest of the event line.
+const escapeAssName = (text: string) => escapeAss(text).replace(/,/g, ' ');
+
+/**
+ * Karaoke subtitles (Advanced SubStation Alpha) styled from the export settings, so a
+ * subtitle renderer such as ffmpeg/libass can burn a synced video without a browser.
+ * Each word's `\k` duration runs until the next word starts, so pauses stay on the earlier word.
+ * Speakers go in each event's Name field and, with `showSpeakers`, colour the unspoken words.
+ */
+export const toASS = (timings: WordTiming[], settings: ExportSettings, direction: TextDirection = 'rtl', speakers: Speaker[] = []): string => {
+  const karaoke = settings.highlightStyle === 'karaoke' ? '\\kf' : '\\k';
+  const events = groupIntoCues(timings).map(cue => {
+    const speaker = cue[0].speaker ? speakers.find(s => s.id === cue[0].speaker) : undefined;
+    const colour = speaker && settings.showSpeakers ? `{\\2c${toAssColor(speaker.color)}&}` : '';
+    const text = colour + cue
+      .map((timing, i) => {
+        const until = i + 1 < cue.length ? cue[i + 1].start : timing.end;
+        return `{${karaoke}${Math.max(0, Math.round((until - timing.start) * 100))}}${escapeAss(timing.word)}`;
+      })
+      .join(' ');
+    const name = cue[0].speaker ? escapeAssName(speaker?.name ?? cue[0].speaker) : '';
+    return `Dialogue: 0,${formatAssTime(cue[0].start)},${formatAssTime(cue[cue.length - 1].end)},Default,${name},0,0,0,,${text}`;
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${settings.width}`,
+    `PlayResY: ${settings.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    // Karaoke sweeps from the secondary colour (not yet spoken) to the primary one.
+    [
+      'Style: Default',
+      settings.fontFamily,
+      settings.fontSize,
+      toAssColor(settings.highlightColor),
+      toAssColor(settings.textColor),
+      toAssColor(settings.backgroundColor),
+      '&H00000000',
+      settings.fontWeight >= 600 ? -1 : 0,
+      0, 0, 0, 100, 100, 0, 0, 1, 0, 0,
+      5,
+      settings.padding, settings.padding, settings.padding,
+      // 178 is the Arabic charset, which also tells renderers to lay the line out right-to-left.
+      direction === 'rtl' ? 178 : 1,
+    ].join(','),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+  ].join('\n') + '\n';
+};
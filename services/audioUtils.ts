@@ -0,0 +1,81 @@
+import { AudioDecodeError } from './errors';
+
+// Works in both the browser and Node (Blob, btoa and arrayBuffer are available in both).
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const CHUNK_SIZE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+// Passing a sample rate makes the browser resample while decoding, which keeps long files small in memory.
+export const decodeAudio = async (blob: Blob, sampleRate?: number): Promise<AudioBuffer> => {
+  const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+  const audioCtx: AudioContext = new AudioContextCtor(sampleRate ? { sampleRate } : undefined);
+  try {
+    return await audioCtx.decodeAudioData(await blob.arrayBuffer());
+  } catch (error) {
+    throw new AudioDecodeError({ cause: error });
+  } finally {
+    audioCtx.close();
+  }
+};
+
+export const getMonoSamples = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+export interface MonoAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+}
+
+// Decodes to mono samples, resampled to `sampleRate` when one is given.
+export type MonoAudioDecoder = (blob: Blob, sampleRate?: number) => Promise<MonoAudio>;
+
+const decodeWithWebAudio: MonoAudioDecoder = async (blob, sampleRate) => {
+  const buffer = await decodeAudio(blob, sampleRate);
+  return { samples: getMonoSamples(buffer), sampleRate: buffer.sampleRate, duration: buffer.duration };
+};
+
+let monoDecoder = decodeWithWebAudio;
+
+// Outside the browser (e.g. the CLI) there is no Web Audio, so another decoder can be plugged in.
+export const setMonoAudioDecoder = (decoder: MonoAudioDecoder) => {
+  monoDecoder = decoder;
+};
+
+export const canDecodeAudio = () =>
+  monoDecoder !== decodeWithWebAudio
+  || (typeof window !== 'undefined' && !!(window.AudioContext || (window as any).webkitAudioContext));
+
+export const decodeMonoAudio = (blob: Blob, sampleRate?: number) => monoDecoder(blob, sampleRate);
+
+// Reads the duration from the container metadata without decoding the whole file.
+export const getAudioDuration = (blob: Blob): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(audio.duration);
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new AudioDecodeError());
+    };
+    audio.src = url;
+  });
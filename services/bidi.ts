@@ -0,0 +1,71 @@
+import type { TextDirection } from '../types';
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_CHAR = /\p{L}/u;
+const DIGIT = /\p{Nd}/u;
+
+// R/L: strong right-to-left or left-to-right, N: number, O: neutral (punctuation, symbols).
+type WordClass = 'R' | 'L' | 'N' | 'O';
+
+const classifyWord = (word: string): WordClass => {
+  for (const char of word) {
+    if (RTL_CHAR.test(char) && STRONG_CHAR.test(char)) return 'R';
+    if (STRONG_CHAR.test(char)) return 'L';
+  }
+  return DIGIT.test(word) ? 'N' : 'O';
+};
+
+/**
+ * Embedding levels for a paragraph's words, following the Unicode bidi algorithm at word
+ * granularity: numbers after right-to-left text act as Arabic numbers, neutrals take the
+ * direction of matching neighbours, and everything else falls back to the base direction.
+ * Within a word the browser's own text shaping handles the characters.
+ */
+export const resolveLevels = (words: string[], base: TextDirection): number[] => {
+  const baseLevel = base === 'rtl' ? 1 : 0;
+  const classes = words.map(classifyWord);
+  // Direction each word contributes to its neighbours, once numbers are resolved.
+  const strong: ('R' | 'L' | null)[] = [];
+  let previousStrong: 'R' | 'L' = base === 'rtl' ? 'R' : 'L';
+  classes.forEach((cls, i) => {
+    if (cls === 'R' || cls === 'L') previousStrong = cls;
+    strong[i] = cls === 'O' ? null : cls === 'N' ? (previousStrong === 'L' ? 'L' : 'R') : cls;
+  });
+
+  // Right-to-left words sit on level 1; left-to-right ones on 0, or 2 inside a right-to-left paragraph.
+  const levelFor = (direction: 'R' | 'L') => (direction === 'R' ? 1 : baseLevel === 1 ? 2 : 0);
+
+  return classes.map((cls, i) => {
+    if (cls === 'R' || cls === 'L') return levelFor(cls);
+    if (cls === 'N') return strong[i] === 'L' && baseLevel === 0 ? 0 : 2;
+    let before: 'R' | 'L' | null = null;
+    for (let j = i - 1; j >= 0 && !before; j--) before = strong[j];
+    let after: 'R' | 'L' | null = null;
+    for (let j = i + 1; j < strong.length && !after; j++) after = strong[j];
+    const sos = base === 'rtl' ? 'R' : 'L';
+    return (before ?? sos) === (after ?? sos) ? levelFor(before ?? sos) : baseLevel;
+  });
+};
+
+// Logical indices in left-to-right display order (rule L2: reverse runs from the highest level down).
+export const visualOrder = (levels: number[]): number[] => {
+  const order = levels.map((_, i) => i);
+  if (levels.length === 0) return order;
+  const highest = Math.max(...levels);
+  const lowestOdd = Math.min(...levels.map(level => (level % 2 === 1 ? level : level + 1)));
+  for (let level = highest; level >= lowestOdd; level--) {
+    let i = 0;
+    while (i < order.length) {
+      if (levels[order[i]] < level) {
+        i++;
+        continue;
+      }
+      let j = i;
+      while (j < order.length && levels[order[j]] >= level) j++;
+      const run = order.slice(i, j).reverse();
+      order.splice(i, run.length, ...run);
+      i = j;
+    }
+  }
+  return order;
+};
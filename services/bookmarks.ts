@@ -0,0 +1,48 @@
+import type { Bookmark, WordRange, WordTiming } from '../types';
+
+const TITLE_WORDS = 6;
+
+export const createBookmark = (range: WordRange, timings: WordTiming[]): Bookmark => {
+  const words = timings.slice(range.start, range.end + 1).map(t => t.word);
+  return {
+    id: `bookmark-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    start: range.start,
+    end: range.end,
+    title: words.length > TITLE_WORDS ? `${words.slice(0, TITLE_WORDS).join(' ')}…` : words.join(' '),
+    note: '',
+    createdAt: Date.now(),
+  };
+};
+
+// Kept in reading order, so the sidebar and exports list them as they occur.
+export const addBookmark = (bookmarks: Bookmark[], bookmark: Bookmark): Bookmark[] =>
+  [...bookmarks, bookmark].sort((a, b) => a.start - b.start || a.end - b.end);
+
+// Drops bookmarks that no longer fit the timings (e.g. after words were merged) and clamps the rest.
+export const fitBookmarks = (bookmarks: Bookmark[], wordCount: number): Bookmark[] =>
+  bookmarks
+    .filter(bookmark => bookmark.start < wordCount)
+    .map(bookmark => (bookmark.end < wordCount ? bookmark : { ...bookmark, end: wordCount - 1 }));
+
+type BookmarkFields = { [K in keyof Bookmark]?: unknown };
+
+const isBookmarkEntry = (value: unknown): value is BookmarkFields & WordRange => {
+  const { start, end } = (value ?? {}) as BookmarkFields;
+  return typeof start === 'number' && typeof end === 'number'
+    && Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end >= start;
+};
+
+// Only well-formed entries, for bookmarks read from imported files.
+export const parseBookmarks = (value: unknown): Bookmark[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return (value as unknown[])
+    .filter(isBookmarkEntry)
+    .map((b, i) => ({
+      id: typeof b.id === 'string' ? b.id : `bookmark-imported-${i}`,
+      start: b.start,
+      end: b.end,
+      title: typeof b.title === 'string' ? b.title : '',
+      note: typeof b.note === 'string' ? b.note : '',
+      createdAt: typeof b.createdAt === 'number' ? b.createdAt : Date.now(),
+    }));
+};
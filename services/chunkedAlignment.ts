@@ -0,0 +1,238 @@
+import type { Aligner, AlignmentChunk, ChunkedAlignmentJob, WordTiming } from '../types';
+import { decodeMonoAudio } from './audioUtils';
+import { reconcileTimings, tokenizeTranscript, type TranscriptToken } from './reconcile';
+import { encodeWav } from './wav';
+import { validateTimings } from './timingValidation';
+import { AudioDecodeError, MissingApiKeyError, UsageLimitError } from './errors';
+import { estimateUsage, meterRequest, type UsageContext } from './usage';
+
+export const CHUNK_SECONDS = 300;
+export const OVERLAP_SECONDS = 20;
+// Files up to this length are sent whole, in their original encoding.
+export const LONG_AUDIO_SECONDS = 600;
+const CHUNK_SAMPLE_RATE = 16000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+// Transcript slices reach this fraction of a window beyond their estimated span, since speech rate varies.
+const TRANSCRIPT_MARGIN = 0.15;
+const STORAGE_PREFIX = 'chunked-alignment:';
+
+export interface ChunkedAlignmentOptions {
+  audio: File;
+  mimeType: string;
+  transcript: string;
+  language?: string;
+  aligner: Aligner;
+  onProgress: (job: ChunkedAlignmentJob) => void;
+  signal?: AbortSignal;
+  // When set, requests to paid backends are logged and held to the limits.
+  usage?: UsageContext;
+}
+
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// `variant` distinguishes runs of the same file that align different audio (e.g. preprocessing settings).
+export const getChunkJobKey = (audio: File, transcript: string, alignerId: string, variant = '') =>
+  STORAGE_PREFIX + hashString([audio.name, audio.size, audio.lastModified, alignerId, transcript, variant].join('\u0000'));
+
+// Where job progress is kept between runs. The browser uses localStorage; the CLI keeps files.
+export interface ChunkJobStore {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+let jobStore: ChunkJobStore | null = typeof localStorage !== 'undefined' ? localStorage : null;
+
+export const setChunkJobStore = (store: ChunkJobStore | null) => {
+  jobStore = store;
+};
+
+export const loadChunkJob = (key: string): ChunkedAlignmentJob | null => {
+  try {
+    const stored = jobStore?.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveChunkJob = (job: ChunkedAlignmentJob) => {
+  try {
+    jobStore?.setItem(job.key, JSON.stringify(job));
+  } catch (err) {
+    console.warn("Could not persist chunked alignment progress:", err);
+  }
+};
+
+export const clearChunkJob = (key: string) => jobStore?.removeItem(key);
+
+export const planChunks = (duration: number, tokens: TranscriptToken[], transcriptLength: number): AlignmentChunk[] => {
+  if (duration <= LONG_AUDIO_SECONDS) {
+    return [{ index: 0, start: 0, end: duration, tokenFrom: 0, tokenTo: tokens.length, status: 'pending', attempts: 0 }];
+  }
+  const chunks: AlignmentChunk[] = [];
+  const step = CHUNK_SECONDS - OVERLAP_SECONDS;
+  // Estimates the transcript position at a given time, assuming a constant speaking rate.
+  const tokenAt = (time: number) => {
+    const offset = (Math.max(0, Math.min(duration, time)) / duration) * transcriptLength;
+    const index = tokens.findIndex(t => t.offset >= offset);
+    return index === -1 ? tokens.length : index;
+  };
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(duration, start + CHUNK_SECONDS);
+    const margin = (end - start) * TRANSCRIPT_MARGIN;
+    chunks.push({
+      index: chunks.length,
+      start,
+      end,
+      tokenFrom: tokenAt(start - margin),
+      tokenTo: tokenAt(end + margin),
+      status: 'pending',
+      attempts: 0,
+    });
+    if (end >= duration) break;
+  }
+  return chunks;
+};
+
+// Configuration problems fail the same way on every attempt, so they are not retried.
+const isRetryable = (err: unknown) => !(err instanceof MissingApiKeyError || err instanceof AudioDecodeError || err instanceof UsageLimitError);
+
+// The abort listener is removed when the timer fires, so retries don't pile closures onto the signal.
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Picks one timing per transcript word. Where chunks overlap, the chunk in which the word lies
+ * furthest from a cut wins, since timestamps near a chunk edge are the least reliable.
+ */
+export const stitchChunks = (chunks: AlignmentChunk[], duration: number): WordTiming[] => {
+  const best = new Map<number, { timing: WordTiming; margin: number }>();
+  chunks.forEach(chunk => {
+    chunk.words?.forEach(({ token, timing }) => {
+      const fromStart = chunk.start <= 0 ? Infinity : timing.start - chunk.start;
+      const fromEnd = chunk.end >= duration ? Infinity : chunk.end - timing.end;
+      const margin = Math.min(fromStart, fromEnd);
+      const current = best.get(token);
+      if (!current || margin > current.margin) best.set(token, { timing, margin });
+    });
+  });
+
+  const stitched: WordTiming[] = [];
+  [...best.entries()]
+    .sort(([a], [b]) => a - b)
+    .forEach(([, { timing }]) => {
+      const previous = stitched[stitched.length - 1];
+      // Drop words that would jump back in time; reconciliation will interpolate them.
+      if (!previous || timing.start >= previous.start) stitched.push(timing);
+    });
+  return stitched;
+};
+
+const alignChunk = async (
+  chunk: AlignmentChunk,
+  options: ChunkedAlignmentOptions,
+  tokens: TranscriptToken[],
+  samples: Float32Array | null,
+  single: boolean,
+) => {
+  const sliceStart = tokens[chunk.tokenFrom]?.offset ?? 0;
+  const lastToken = tokens[chunk.tokenTo - 1];
+  const sliceEnd = lastToken ? lastToken.offset + lastToken.text.length : options.transcript.length;
+  const sliceText = options.transcript.slice(sliceStart, sliceEnd);
+
+  const audio = single || !samples
+    ? options.audio
+    : encodeWav(samples.subarray(Math.floor(chunk.start * CHUNK_SAMPLE_RATE), Math.ceil(chunk.end * CHUNK_SAMPLE_RATE)), CHUNK_SAMPLE_RATE);
+  meterRequest(options.usage, options.aligner, 'align', estimateUsage(chunk.end - chunk.start, sliceText));
+  const raw = await options.aligner.align({
+    audio,
+    mimeType: single ? options.mimeType : 'audio/wav',
+    transcript: sliceText,
+    language: options.language,
+  });
+
+  const sanitized = validateTimings(raw, chunk.end - chunk.start, { closeGapsUnder: 0 });
+  const { timings, issues } = reconcileTimings(sliceText, sanitized.timings);
+  const unmatched = new Set(issues.filter(i => i.kind === 'missing').map(i => i.transcriptIndex));
+  return timings
+    .map((timing, k) => ({ token: chunk.tokenFrom + k, timing: { ...timing, start: timing.start + chunk.start, end: timing.end + chunk.start } }))
+    .filter((_, k) => !unmatched.has(k));
+};
+
+/**
+ * Aligns long audio window by window. Progress is persisted after every chunk so an
+ * interrupted or partly failed job resumes without redoing finished chunks.
+ */
+export const runChunkedAlignment = async (
+  options: ChunkedAlignmentOptions,
+  jobKey: string,
+): Promise<{ timings: WordTiming[]; duration: number }> => {
+  const { audio, transcript, onProgress, signal } = options;
+  const tokens = tokenizeTranscript(transcript);
+
+  let job = loadChunkJob(jobKey);
+  let samples: Float32Array | null = null;
+  let duration = job?.duration;
+
+  if (!job || (job.chunks.length > 1 && job.chunks.some(c => c.status !== 'done'))) {
+    const decoded = await decodeMonoAudio(audio, CHUNK_SAMPLE_RATE);
+    samples = decoded.samples;
+    duration = decoded.duration;
+  }
+  if (!job) {
+    job = { key: jobKey, duration: duration!, chunks: planChunks(duration!, tokens, transcript.length) };
+  }
+  const single = job.chunks.length === 1;
+
+  const update = (chunk: AlignmentChunk, changes: Partial<AlignmentChunk>) => {
+    job = { ...job!, chunks: job!.chunks.map(c => (c.index === chunk.index ? { ...c, ...changes } : c)) };
+    saveChunkJob(job);
+    onProgress(job);
+  };
+  onProgress(job);
+
+  for (const chunk of job.chunks) {
+    if (chunk.status === 'done') continue;
+    let attempts = 0;
+    while (true) {
+      signal?.throwIfAborted();
+      attempts++;
+      update(chunk, { status: 'running', attempts, error: undefined });
+      try {
+        const words = await alignChunk(chunk, options, tokens, samples, single);
+        update(chunk, { status: 'done', words });
+        break;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Error aligning chunk ${chunk.index + 1}:`, err);
+        if (signal?.aborted || attempts >= MAX_ATTEMPTS || !isRetryable(err)) {
+          update(chunk, { status: 'failed', error: message });
+          throw err;
+        }
+        update(chunk, { status: 'pending', error: message });
+        await delay(RETRY_DELAY_MS * attempts, signal);
+      }
+    }
+  }
+
+  return { timings: stitchChunks(job.chunks, job.duration), duration: job.duration };
+};
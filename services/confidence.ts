@@ -0,0 +1,158 @@
+import type { QualityGrade, QualityReport, ReconciliationIssue, TimingIssue, WordTiming } from '../types';
+import { decodeMonoAudio } from './audioUtils';
+import { detectSpeechSegments, type SpeechSegment } from './localAligner';
+
+// Words scoring below this are flagged for review.
+export const LOW_CONFIDENCE = 0.6;
+const SPEECH_SAMPLE_RATE = 16000;
+
+// Rough speaking rate used to judge whether a word's duration is plausible for its length.
+const SECONDS_PER_CHAR = 0.07;
+const SECONDS_BASE = 0.1;
+const MIN_DURATION_RATIO = 0.3;
+const MAX_DURATION_RATIO = 3.5;
+// A word sitting next to a pause longer than this is more likely to have drifted.
+const LONG_GAP_SECONDS = 2;
+
+// How much each reconciliation outcome lowers a word's score.
+const RECONCILIATION_FACTORS: Record<ReconciliationIssue['kind'], number> = {
+  missing: 0.35,
+  substituted: 0.7,
+  merged: 0.75,
+  split: 0.8,
+  extra: 1,
+};
+// Words the validation pass had to repair (overlaps, too short to show).
+const REPAIRED_FACTOR = 0.75;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const durationFactor = (timing: WordTiming) => {
+  const duration = timing.end - timing.start;
+  if (duration <= 0) return 0;
+  const ratio = duration / ([...timing.word].length * SECONDS_PER_CHAR + SECONDS_BASE);
+  if (ratio < MIN_DURATION_RATIO) return clamp01(ratio / MIN_DURATION_RATIO);
+  if (ratio > MAX_DURATION_RATIO) return clamp01(MAX_DURATION_RATIO / ratio);
+  return 1;
+};
+
+const gapFactor = (timings: WordTiming[], index: number) => {
+  const timing = timings[index];
+  const previous = timings[index - 1];
+  const next = timings[index + 1];
+  if ((previous && timing.start < previous.end - 0.001) || (next && next.start < timing.end - 0.001)) return 0.5;
+  const longest = Math.max(previous ? timing.start - previous.end : 0, next ? next.start - timing.end : 0);
+  return longest > LONG_GAP_SECONDS ? 0.85 : 1;
+};
+
+// Share of the word's span that falls inside detected speech; a word timed over silence is suspect.
+const speechFactor = (timing: WordTiming, speech: SpeechSegment[], cursor: { index: number }) => {
+  const duration = timing.end - timing.start;
+  if (duration <= 0) return 0;
+  while (cursor.index < speech.length && speech[cursor.index].end <= timing.start) cursor.index++;
+  let covered = 0;
+  for (let i = cursor.index; i < speech.length && speech[i].start < timing.end; i++) {
+    covered += Math.min(timing.end, speech[i].end) - Math.max(timing.start, speech[i].start);
+  }
+  return 0.3 + 0.7 * clamp01(covered / duration);
+};
+
+export interface ScoringContext {
+  // Speech detected in the audio, when it could be decoded.
+  speech?: SpeechSegment[] | null;
+  reconciliationIssues?: ReconciliationIssue[];
+  timingIssues?: TimingIssue[];
+}
+
+/**
+ * Gives every word a 0–1 `confidence` from independent heuristics, multiplied together:
+ * duration plausible for the word's length, no overlaps or long pauses around it, speech
+ * energy at the stated time, how cleanly it was matched to the transcript, whether validation
+ * had to repair it, and the aligner's own `reportedConfidence` when it gave one.
+ */
+export const scoreTimings = (
+  timings: WordTiming[],
+  { speech, reconciliationIssues = [], timingIssues = [] }: ScoringContext = {},
+): WordTiming[] => {
+  const reconciliation = new Map<number, number>();
+  timingIssues.forEach(issue => {
+    if (issue.wordIndex !== undefined) reconciliation.set(issue.wordIndex, REPAIRED_FACTOR);
+  });
+  reconciliationIssues.forEach(issue => {
+    if (issue.transcriptIndex === undefined) return;
+    const factor = RECONCILIATION_FACTORS[issue.kind];
+    reconciliation.set(issue.transcriptIndex, Math.min(reconciliation.get(issue.transcriptIndex) ?? 1, factor));
+    // A merge covers two transcript words.
+    if (issue.kind === 'merged') reconciliation.set(issue.transcriptIndex + 1, factor);
+  });
+
+  const cursor = { index: 0 };
+  const sorted = timings.every((t, i) => i === 0 || t.start >= timings[i - 1].start);
+  return timings.map((timing, index) => {
+    let score = durationFactor(timing) * gapFactor(timings, index) * (reconciliation.get(index) ?? 1);
+    if (speech?.length) {
+      if (!sorted) cursor.index = 0;
+      score *= speechFactor(timing, speech, cursor);
+    }
+    if (typeof timing.reportedConfidence === 'number' && Number.isFinite(timing.reportedConfidence)) {
+      score *= 0.5 + 0.5 * clamp01(timing.reportedConfidence);
+    }
+    return { ...timing, confidence: Math.round(clamp01(score) * 100) / 100 };
+  });
+};
+
+// Best effort: scoring still works (with fewer signals) when the audio cannot be decoded.
+export const detectSpeech = async (audio: Blob): Promise<SpeechSegment[] | null> => {
+  try {
+    const decoded = await decodeMonoAudio(audio, SPEECH_SAMPLE_RATE);
+    return detectSpeechSegments(decoded.samples, decoded.sampleRate);
+  } catch (err) {
+    console.warn("Could not analyse the audio for confidence scoring:", err);
+    return null;
+  }
+};
+
+// Words a person has retimed are trusted, so edits raise them to full confidence.
+export const confirmEditedTimings = (previous: WordTiming[], next: WordTiming[]): WordTiming[] =>
+  next.map((timing, index) => {
+    const before = previous[index];
+    const edited = !before || before.word !== timing.word || before.start !== timing.start || before.end !== timing.end;
+    return edited ? { ...timing, confidence: 1 } : timing;
+  });
+
+export const isLowConfidence = (timing: WordTiming, threshold = LOW_CONFIDENCE) =>
+  timing.confidence !== undefined && timing.confidence < threshold;
+
+export const findLowConfidenceWords = (timings: WordTiming[], threshold = LOW_CONFIDENCE) =>
+  timings.reduce<number[]>((indices, timing, index) => {
+    if (isLowConfidence(timing, threshold)) indices.push(index);
+    return indices;
+  }, []);
+
+const gradeFor = (average: number, lowShare: number): QualityGrade => {
+  if (average >= 0.8 && lowShare <= 0.05) return 'good';
+  if (average >= 0.6 && lowShare <= 0.2) return 'fair';
+  return 'poor';
+};
+
+export const buildQualityReport = (timings: WordTiming[], threshold = LOW_CONFIDENCE): QualityReport | null => {
+  const scored = timings.filter(t => t.confidence !== undefined);
+  if (!scored.length) return null;
+  const lowWords = findLowConfidenceWords(timings, threshold);
+  const average = scored.reduce((sum, t) => sum + t.confidence!, 0) / scored.length;
+
+  // The longest stretch of consecutive flagged words usually marks where the sync drifted.
+  let worstRun = { start: -1, length: 0 };
+  let run = { start: -1, length: 0 };
+  lowWords.forEach((index, k) => {
+    run = k > 0 && lowWords[k - 1] === index - 1 ? { start: run.start, length: run.length + 1 } : { start: index, length: 1 };
+    if (run.length > worstRun.length) worstRun = run;
+  });
+
+  return {
+    average,
+    grade: gradeFor(average, lowWords.length / scored.length),
+    lowWords,
+    worstRun: worstRun.length ? { start: worstRun.start, end: worstRun.start + worstRun.length - 1 } : null,
+  };
+};
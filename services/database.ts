@@ -0,0 +1,57 @@
+// The app's IndexedDB database, shared by saved projects and the alignment cache.
+const DB_NAME = 'gps-audio-text-sync';
+const DB_VERSION = 2;
+export const PROJECTS_STORE = 'projects';
+export const ALIGNMENT_CACHE_STORE = 'alignment-cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const request = <T,>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ALIGNMENT_CACHE_STORE)) {
+          db.createObjectStore(ALIGNMENT_CACHE_STORE, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+        }
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // Another tab is upgrading to a newer version; let it, and reopen on next use.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+      // An older version is still open in another tab that didn't let go; fail rather than wait forever.
+      req.onblocked = () => {
+        dbPromise = null;
+        reject(new Error('The saved-projects database is open in another tab running an older version of the app. Close that tab and try again.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getStore = async (name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+export const withStore = async <T,>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  request(run(await getStore(name, mode)));
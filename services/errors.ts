@@ -0,0 +1,71 @@
+import type { TimingIssue } from '../types';
+
+// Base class for failures the user can act on; `message` is written to be shown in the UI.
+export class AlignmentError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AlignmentError';
+  }
+}
+
+export class MissingApiKeyError extends AlignmentError {
+  constructor() {
+    super('No Gemini API key is configured. Set GEMINI_API_KEY, or choose the local aligner.');
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class AudioDecodeError extends AlignmentError {
+  constructor(options?: { cause?: unknown }) {
+    super('The audio file could not be decoded. Try converting it to MP3 or WAV.', options);
+    this.name = 'AudioDecodeError';
+  }
+}
+
+export class AlignerRequestError extends AlignmentError {
+  constructor(backend: string, options?: { cause?: unknown }) {
+    const detail = options?.cause instanceof Error ? ` (${options.cause.message})` : '';
+    super(`The request to ${backend} failed${detail}. Check your connection and try again.`, options);
+    this.name = 'AlignerRequestError';
+  }
+}
+
+export class AlignerResponseError extends AlignmentError {
+  constructor(backend: string, reason: string, options?: { cause?: unknown }) {
+    super(`${backend} returned an unusable response: ${reason}`, options);
+    this.name = 'AlignerResponseError';
+  }
+}
+
+export class TimingValidationError extends AlignmentError {
+  issues: TimingIssue[];
+
+  constructor(message: string, issues: TimingIssue[]) {
+    super(message);
+    this.name = 'TimingValidationError';
+    this.issues = issues;
+  }
+}
+
+// Raised before a request that would go over a usage limit; retrying cannot help until the window moves on.
+export class UsageLimitError extends AlignmentError {
+  constructor(limit: string) {
+    super(`This would go over the usage limit of ${limit} in 24 hours. Raise the limit, or wait and try again.`);
+    this.name = 'UsageLimitError';
+  }
+}
+
+// Base class for video export failures; like AlignmentError, `message` is shown in the UI.
+export class ExportError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ExportError';
+  }
+}
+
+export class UnsupportedExportConfigError extends ExportError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedExportConfigError';
+  }
+}
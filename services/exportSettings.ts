@@ -0,0 +1,88 @@
+import type { ExportSettings, HighlightStyle, LayoutMode } from '../types';
+
+const STORAGE_KEY = 'export-settings';
+
+export const RESOLUTION_PRESETS = [
+  { id: '1080p', label: 'Widescreen 1920×1080 (16:9)', width: 1920, height: 1080 },
+  { id: '720p', label: 'Widescreen 1280×720 (16:9)', width: 1280, height: 720 },
+  { id: 'vertical-1080', label: 'Reels / Shorts 1080×1920 (9:16)', width: 1080, height: 1920 },
+  { id: 'vertical-720', label: 'Reels / Shorts 720×1280 (9:16)', width: 720, height: 1280 },
+  { id: 'square', label: 'Square 1080×1080 (1:1)', width: 1080, height: 1080 },
+  { id: 'portrait', label: 'Portrait 1080×1350 (4:5)', width: 1080, height: 1350 },
+];
+
+export const FONT_FAMILIES = ['Noto Naskh Arabic', 'Amiri', 'Cairo', 'Tajawal', 'Arial', 'Georgia'];
+
+export const HIGHLIGHT_STYLES: { id: HighlightStyle; label: string }[] = [
+  { id: 'box', label: 'Box' },
+  { id: 'underline', label: 'Underline' },
+  { id: 'color', label: 'Color change' },
+  { id: 'karaoke', label: 'Karaoke fill' },
+];
+
+export const LAYOUT_MODES: { id: LayoutMode; label: string }[] = [
+  { id: 'page', label: 'Full page (scrolling)' },
+  { id: 'line', label: 'Current line only' },
+  { id: 'sentence', label: 'Current sentence only' },
+  { id: 'paragraph', label: 'Current paragraph only' },
+];
+
+export const FPS_OPTIONS = [24, 25, 30, 60];
+
+export const VIDEO_BITRATES = [
+  { value: 1_000_000, label: '1 Mbps (small)' },
+  { value: 2_500_000, label: '2.5 Mbps (standard)' },
+  { value: 5_000_000, label: '5 Mbps (high)' },
+  { value: 8_000_000, label: '8 Mbps (very high)' },
+];
+
+export const AUDIO_BITRATES = [
+  { value: 96_000, label: '96 kbps' },
+  { value: 128_000, label: '128 kbps' },
+  { value: 192_000, label: '192 kbps' },
+];
+
+// Matches the look of the original hardcoded export.
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  fontFamily: 'Noto Naskh Arabic',
+  fontSize: 48,
+  fontWeight: 500,
+  lineHeight: 1.8,
+  padding: 60,
+  textColor: '#374151',
+  activeTextColor: '#111827',
+  highlightColor: '#fde047',
+  backgroundColor: '#f9fafb',
+  backgroundImage: null,
+  highlightStyle: 'box',
+  highlightMode: 'word',
+  layoutMode: 'page',
+  showTranslation: true,
+  showSpeakers: true,
+  container: 'webm',
+  videoBitrate: 2_500_000,
+  audioBitrate: 128_000,
+  fileName: 'synced-video',
+};
+
+// The background image is a data URL and can be large, so it is not persisted.
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_EXPORT_SETTINGS, ...(stored ? JSON.parse(stored) : {}), backgroundImage: null };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  const { backgroundImage, ...rest } = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+  } catch (err) {
+    console.warn("Could not persist export settings:", err);
+  }
+};
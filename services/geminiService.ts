@@ -1,82 +1,211 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import type { WordTiming } from '../types';
+import type { Aligner, AlignmentRequest, TranscriptionRequest, TranslationAlignmentRequest, WordTiming } from '../types';
+import { blobToBase64 } from './audioUtils';
+import { AlignerRequestError, AlignerResponseError, MissingApiKeyError } from './errors';
+import { getLanguage } from './language';
 
-const API_KEY = process.env.API_KEY;
+// Read on use rather than at import, so the CLI can set it after loading the module.
+const getApiKey = () => process.env.API_KEY;
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set.");
-}
+export const GEMINI_MODEL = "gemini-2.5-flash";
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+let ai: GoogleGenAI | null = null;
+
+// The client is created on first use so the app still loads (e.g. for the local aligner) without a key.
+const getClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new MissingApiKeyError();
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey });
+  }
+  return ai;
+};
+
+export const isGeminiConfigured = () => !!getApiKey();
+
+// One entry per word; shared by alignment and transcription.
+const WORD_TIMINGS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      word: {
+        type: Type.STRING,
+        description: 'A single word from the transcript.',
+      },
+      start: {
+        type: Type.NUMBER,
+        description: 'The start time of the word in seconds.',
+      },
+      end: {
+        type: Type.NUMBER,
+        description: 'The end time of the word in seconds.',
+      },
+      confidence: {
+        type: Type.NUMBER,
+        description: 'How sure you are of this word\'s timing, from 0 (guess) to 1 (certain).',
+      },
+      speaker: {
+        type: Type.STRING,
+        description: 'Who says this word, as a short label such as "A" or "B" that stays the same for the same voice. Omit when only one person speaks.',
+      },
+    },
+    required: ['word', 'start', 'end'],
+  },
+};
+
+const describeLanguage = (language?: string) => (language ? getLanguage(language)?.label ?? language : null);
+
+const requestWordTimings = async (audioBase64: string, mimeType: string, prompt: string): Promise<WordTiming[]> => {
+  const client = getClient();
+  let responseText: string;
+  try {
+    const response = await client.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{
+        parts: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: prompt },
+        ],
+      }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: WORD_TIMINGS_SCHEMA,
+      },
+    });
+
+    responseText = response.text ?? '';
+  } catch (error) {
+    console.error("Error calling Gemini API for word timings:", error);
+    throw new AlignerRequestError('Gemini', { cause: error });
+  }
+
+  let timings: unknown;
+  try {
+    timings = JSON.parse(responseText.trim());
+  } catch (error) {
+    throw new AlignerResponseError('Gemini', 'the timings are not valid JSON.', { cause: error });
+  }
+  if (!Array.isArray(timings)) {
+    throw new AlignerResponseError('Gemini', 'expected a JSON array of word timings.');
+  }
+  // Individual entries are checked and repaired by the validation layer (see timingValidation).
+  return timings.map(entry => {
+    if (!entry || typeof entry !== 'object') return entry;
+    const { confidence, speaker, ...rest } = entry as { confidence?: unknown; speaker?: unknown };
+    return {
+      ...rest,
+      ...(confidence !== undefined ? { reportedConfidence: confidence } : {}),
+      ...(typeof speaker === 'string' && speaker.trim() ? { speaker: speaker.trim() } : {}),
+    };
+  }) as WordTiming[];
+};
 
 export const generateWordTimings = async (
   audioBase64: string,
   mimeType: string,
-  transcript: string
+  transcript: string,
+  language?: string
 ): Promise<WordTiming[]> => {
-  try {
-    const prompt = `You are an expert in audio-to-text alignment. 
+  const languageName = describeLanguage(language);
+  const languageHint = languageName
+    ? `The audio and transcript are in ${languageName}. Words are separated by whitespace, whatever the script's direction.`
+    : '';
+  const prompt = `You are an expert in audio-to-text alignment. 
     Your task is to provide precise start and end timestamps for each word in the provided transcript, based on the provided audio file.
-    Output the result as a valid JSON array where each element is an object with 'word', 'start', and 'end' keys. The timestamps must be in seconds.
+    ${languageHint}
+    Output the result as a valid JSON array where each element is an object with 'word', 'start', 'end' and 'confidence' keys. The timestamps must be in seconds; 'confidence' is your certainty about that word's timing, from 0 to 1.
     Ensure the 'word' values in your JSON output exactly match the words from the transcript. Do not add, remove, or alter any words.
+    If more than one person speaks, add a 'speaker' label to every word ("A" for the first voice heard, "B" for the second, and so on).
 
     Transcript:
     ---
     ${transcript}
     ---
     `;
+  return requestWordTimings(audioBase64, mimeType, prompt);
+};
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [{
-        parts: [
-          { inlineData: { mimeType, data: audioBase64 } },
-          { text: prompt },
-        ],
-      }],
+export const generateTranscription = async (
+  audioBase64: string,
+  mimeType: string,
+  language?: string
+): Promise<WordTiming[]> => {
+  const languageName = describeLanguage(language);
+  const prompt = `You are an expert transcriber. Transcribe the speech in the provided audio file verbatim${languageName ? `; it is in ${languageName}` : ''}, and give precise start and end timestamps for every word.
+    Keep punctuation attached to the word it follows, and use the language's own script.
+    Output the result as a valid JSON array, in spoken order, where each element is an object with 'word', 'start', 'end' and 'confidence' keys. The timestamps must be in seconds; 'confidence' is your certainty about that word and its timing, from 0 to 1.
+    If more than one person speaks, add a 'speaker' label to every word ("A" for the first voice heard, "B" for the second, and so on).
+    `;
+  return requestWordTimings(audioBase64, mimeType, prompt);
+};
+
+export const generateTranslationAlignment = async ({
+  sources,
+  translation,
+  sourceLanguage,
+  targetLanguage,
+}: TranslationAlignmentRequest): Promise<string[]> => {
+  const client = getClient();
+  const describe = (code?: string) => describeLanguage(code) ?? 'the original language';
+  let responseText: string;
+  try {
+    const prompt = `You are aligning a translation with its source text for a parallel-text reader.
+    The source is in ${describe(sourceLanguage)} and the translation is in ${describe(targetLanguage)}.
+    Split the translation into exactly ${sources.length} consecutive parts, one for each numbered source sentence, in order.
+    Every part must be copied verbatim from the translation; together the parts must contain the whole translation. Use an empty string for a source sentence with no counterpart.
+    Output a JSON array of ${sources.length} strings.
+
+    Source sentences:
+    ---
+    ${sources.map((sentence, i) => `${i + 1}. ${sentence}`).join('\n    ')}
+    ---
+
+    Translation:
+    ---
+    ${translation}
+    ---
+    `;
+
+    const response = await client.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{ parts: [{ text: prompt }] }],
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              word: {
-                type: Type.STRING,
-                description: 'A single word from the transcript.',
-              },
-              start: {
-                type: Type.NUMBER,
-                description: 'The start time of the word in seconds.',
-              },
-              end: {
-                type: Type.NUMBER,
-                description: 'The end time of the word in seconds.',
-              },
-            },
-            required: ['word', 'start', 'end'],
-          },
-        },
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
       },
     });
+    responseText = response.text ?? '';
+  } catch (error) {
+    console.error("Error calling Gemini API for translation alignment:", error);
+    throw new AlignerRequestError('Gemini', { cause: error });
+  }
 
-    const jsonString = response.text.trim();
-    const timings = JSON.parse(jsonString);
-
-    if (!Array.isArray(timings)) {
-        throw new Error("API did not return a valid array for timings.");
-    }
-    
-    // Basic validation
-    if (timings.length > 0 && (!timings[0].hasOwnProperty('word') || !timings[0].hasOwnProperty('start') || !timings[0].hasOwnProperty('end'))) {
-        throw new Error("API response is missing required fields in timing objects.");
-    }
-
-    return timings as WordTiming[];
-
+  let parts: unknown;
+  try {
+    parts = JSON.parse(responseText.trim());
   } catch (error) {
-    console.error("Error calling Gemini API for word timings:", error);
-    throw new Error("Failed to generate word timings from Gemini API.");
+    throw new AlignerResponseError('Gemini', 'the translation alignment is not valid JSON.', { cause: error });
+  }
+  if (!Array.isArray(parts) || parts.length !== sources.length || parts.some(part => typeof part !== 'string')) {
+    throw new AlignerResponseError('Gemini', `expected ${sources.length} translation parts, one per sentence.`);
   }
+  return parts as string[];
+};
+
+export const geminiAligner: Aligner = {
+  id: 'gemini',
+  label: 'Gemini (cloud)',
+  description: `Sends the audio and transcript to ${GEMINI_MODEL} for word-level timestamps and speaker labels, and can transcribe audio that has no script. Requires a network connection and an API key.`,
+  requiresNetwork: true,
+  model: GEMINI_MODEL,
+  isAvailable: isGeminiConfigured,
+  align: async ({ audio, mimeType, transcript, language }: AlignmentRequest) =>
+    generateWordTimings(await blobToBase64(audio), mimeType, transcript, language),
+  transcribe: async ({ audio, mimeType, language }: TranscriptionRequest) =>
+    generateTranscription(await blobToBase64(audio), mimeType, language),
+  alignTranslation: generateTranslationAlignment,
 };
@@ -0,0 +1,233 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import TextViewer, { type ParallelText } from '../components/TextViewer';
+import { PauseIcon, PlayIcon, StopIcon } from '../constants';
+import { blobToBase64 } from './audioUtils';
+import { buildSegments } from './segmentation';
+import { buildViewElements } from './viewElements';
+import type { Speaker, TextDirection, WordTiming } from '../types';
+
+export interface StandalonePlayerOptions {
+  title: string;
+  audio: Blob;
+  transcript: string;
+  timings: WordTiming[];
+  language: string;
+  direction: TextDirection;
+  parallelText?: ParallelText | null;
+  speakers?: Speaker[] | null;
+}
+
+interface PlayerData {
+  timings: [number, number][];
+  sentences: [number, number][];
+}
+
+// The transcript markup comes from TextViewer, so this stylesheet provides the handful of
+// Tailwind utilities it uses (the exported page must work offline, without the Tailwind CDN).
+// Colours go through variables so the `theme` URL parameter can switch them.
+const PLAYER_CSS = `
+:root { --bg: #f3f4f6; --panel: #f9fafb; --border: #e5e7eb; --text: #1f2937; --muted: #6b7280; --faint: #9ca3af; --strong: #111827; --active: #fde047; --range: #fef9c3; --segment: #fef3c7; --button: #e5e7eb; }
+[data-theme="dark"] { --bg: #111827; --panel: #1f2937; --border: #374151; --text: #e5e7eb; --muted: #9ca3af; --faint: #6b7280; --strong: #f9fafb; --active: #ca8a04; --range: #422006; --segment: #451a03; --button: #374151; }
+[data-theme="sepia"] { --bg: #f4ecd8; --panel: #fbf5e6; --border: #e0d3b5; --text: #433422; --muted: #7a6548; --faint: #a8916d; --strong: #2b1f12; --active: #f0c75e; --range: #f6e7b8; --segment: #f3dfa8; --button: #e8dcc0; }
+* { box-sizing: border-box; }
+body { margin: 0; padding: 16px; background: var(--bg); color: var(--text); font-family: 'Noto Naskh Arabic', 'Segoe UI', serif; }
+.player { max-width: 960px; margin: 0 auto; display: flex; flex-direction: column; gap: 16px; height: calc(100vh - 32px); }
+.player-text { flex: 1; overflow-y: auto; }
+.player-controls { display: flex; align-items: center; gap: 12px; direction: ltr; }
+.player-controls button { border: 0; border-radius: 9999px; background: var(--button); color: var(--strong); padding: 10px; cursor: pointer; display: flex; }
+.player-controls button.primary { background: var(--active); padding: 14px; }
+.player-controls input { flex: 1; accent-color: var(--active); }
+.player-time { font-variant-numeric: tabular-nums; color: var(--muted); font-size: 14px; }
+.p-6 { padding: 1.5rem; } .px-1 { padding-left: .25rem; padding-right: .25rem; } .py-2 { padding-top: .5rem; padding-bottom: .5rem; }
+.mt-1 { margin-top: .25rem; } .mb-4 { margin-bottom: 1rem; }
+.rounded-lg { border-radius: .5rem; } .rounded-md { border-radius: .375rem; }
+.border { border: 1px solid var(--border); } .bg-gray-50\\/70 { background: var(--panel); }
+.text-3xl { font-size: 1.875rem; } .text-xl { font-size: 1.25rem; } .font-medium { font-weight: 500; }
+@media (min-width: 768px) { .md\\:text-4xl { font-size: 2.25rem; } }
+.grid { display: grid; } .grid-cols-2 { grid-template-columns: repeat(2, minmax(0, 1fr)); } .gap-x-6 { column-gap: 1.5rem; } .items-start { align-items: start; }
+.text-gray-800 { color: var(--text); } .text-gray-900 { color: var(--strong); } .text-gray-500 { color: var(--muted); } .text-gray-400 { color: var(--faint); }
+.cursor-pointer { cursor: pointer; } .hover\\:bg-yellow-100:hover { background: var(--range); }
+.bg-amber-100 { background: var(--segment); }
+.speaker-tag { display: inline-block; margin-inline-end: .5rem; padding: 0 .5rem; border-radius: 9999px; font-size: 1rem; font-weight: 600; vertical-align: middle; user-select: none; }
+[data-word-index] { transition: background-color .2s, color .2s; }
+[data-word-index].is-active { background: var(--active); color: var(--strong); border-radius: .375rem; padding: 0 .25rem; }
+[data-sentence-index].is-current { background: var(--segment); color: var(--strong); }
+`;
+
+/**
+ * Runs inside the exported page. Kept free of imports and outer variables because it is
+ * embedded with `Function.prototype.toString`.
+ */
+function playerScript() {
+  const data: PlayerData = JSON.parse(document.getElementById('player-data')!.textContent || '{}');
+  const params = new URLSearchParams(location.search);
+  const audio = document.getElementById('player-audio') as HTMLAudioElement;
+  const playButton = document.getElementById('player-play')!;
+  const seek = document.getElementById('player-seek') as HTMLInputElement;
+  const clock = document.getElementById('player-time')!;
+  const words: HTMLElement[] = [];
+  document.querySelectorAll<HTMLElement>('[data-word-index]').forEach(el => { words[Number(el.dataset.wordIndex)] = el; });
+
+  const theme = params.get('theme');
+  if (theme) document.documentElement.dataset.theme = theme;
+
+  // Accepts seconds ("75.5") or minutes:seconds ("1:15.5").
+  const parseTime = (value: string | null) => {
+    if (!value) return 0;
+    const seconds = value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    return Number.isFinite(seconds) ? Math.max(0, seconds) : 0;
+  };
+  const format = (seconds: number) => {
+    const s = Math.floor(seconds % 60);
+    return `${Math.floor(seconds / 60)}:${s < 10 ? '0' : ''}${s}`;
+  };
+
+  // Index of the last entry starting at or before `time`, for [start, end] pairs sorted by start.
+  const lastStarted = (entries: [number, number][], value: number) => {
+    let lo = 0;
+    let hi = entries.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (entries[mid][0] <= value) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  };
+
+  let active = -1;
+  let currentSentence = -1;
+  const update = () => {
+    const time = audio.currentTime;
+    const index = lastStarted(data.timings, time);
+    const isSpoken = index >= 0 && time < data.timings[index][1];
+    if (isSpoken && index !== active) {
+      words[active]?.classList.remove('is-active');
+      words[index]?.classList.add('is-active');
+      words[index]?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'nearest' });
+      active = index;
+    }
+    const sentence = index >= 0 ? lastStarted(data.sentences, index) : -1;
+    if (sentence !== currentSentence) {
+      document.querySelector(`[data-sentence-index="${currentSentence}"]`)?.classList.remove('is-current');
+      document.querySelector(`[data-sentence-index="${sentence}"]`)?.classList.add('is-current');
+      currentSentence = sentence;
+    }
+    seek.value = String(time);
+    clock.textContent = `${format(time)} / ${format(audio.duration || 0)}`;
+  };
+
+  const tick = () => {
+    update();
+    if (!audio.paused) requestAnimationFrame(tick);
+  };
+
+  audio.addEventListener('play', () => {
+    playButton.innerHTML = document.getElementById('player-pause-icon')!.innerHTML;
+    requestAnimationFrame(tick);
+  });
+  audio.addEventListener('pause', () => {
+    playButton.innerHTML = document.getElementById('player-play-icon')!.innerHTML;
+    update();
+  });
+  audio.addEventListener('seeked', update);
+  audio.addEventListener('loadedmetadata', () => {
+    seek.max = String(audio.duration);
+    audio.currentTime = parseTime(params.get('t') ?? params.get('start'));
+    update();
+    if (['1', 'true'].includes(params.get('autoplay') ?? '')) {
+      // Browsers may block autoplay with sound; the play button still works then.
+      audio.play().catch(() => {});
+    }
+  });
+
+  playButton.addEventListener('click', () => (audio.paused ? audio.play() : audio.pause()));
+  document.getElementById('player-stop')!.addEventListener('click', () => {
+    audio.pause();
+    audio.currentTime = 0;
+  });
+  seek.addEventListener('input', () => { audio.currentTime = Number(seek.value); });
+  document.getElementById('player-text')!.addEventListener('click', event => {
+    const word = (event.target as HTMLElement).closest<HTMLElement>('[data-word-index]');
+    const timing = word && data.timings[Number(word.dataset.wordIndex)];
+    if (timing) audio.currentTime = timing[0];
+  });
+  document.addEventListener('keydown', event => {
+    if (event.key === ' ' && (event.target as HTMLElement).tagName !== 'BUTTON') {
+      event.preventDefault();
+      playButton.click();
+    }
+  });
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// JSON inside a <script> element must not contain "</script>".
+const embedJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * Builds a single self-contained HTML file with the audio, transcript and timings that plays
+ * offline or inside an iframe. URL parameters: `t`/`start` (seconds or m:ss), `theme`
+ * (light, dark, sepia) and `autoplay=1`.
+ */
+export const buildStandalonePlayer = async ({
+  title,
+  audio,
+  transcript,
+  timings,
+  language,
+  direction,
+  parallelText,
+  speakers,
+}: StandalonePlayerOptions): Promise<Blob> => {
+  const viewElements = buildViewElements(transcript, timings);
+  const data: PlayerData = {
+    timings: timings.map(t => [t.start, t.end]),
+    sentences: buildSegments(viewElements).sentence.map(s => [s.start, s.end]),
+  };
+  const transcriptMarkup = renderToStaticMarkup(React.createElement(TextViewer, {
+    viewElements,
+    activeWordIndex: -1,
+    direction,
+    language,
+    parallelText,
+    speakers,
+    onWordClick: () => {},
+  }));
+  const icon = (component: () => React.ReactElement) => renderToStaticMarkup(React.createElement(component));
+  const audioUrl = `data:${audio.type || 'audio/mpeg'};base64,${await blobToBase64(audio)}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>${PLAYER_CSS}</style>
+</head>
+<body>
+<div class="player">
+  <div class="player-text" id="player-text">${transcriptMarkup}</div>
+  <div class="player-controls">
+    <button id="player-stop" aria-label="Stop">${icon(StopIcon)}</button>
+    <button id="player-play" class="primary" aria-label="Play or pause">${icon(PlayIcon)}</button>
+    <input id="player-seek" type="range" min="0" max="0" step="0.01" value="0" aria-label="Seek" />
+    <span id="player-time" class="player-time">0:00 / 0:00</span>
+  </div>
+</div>
+<template id="player-play-icon">${icon(PlayIcon)}</template>
+<template id="player-pause-icon">${icon(PauseIcon)}</template>
+<audio id="player-audio" preload="auto" src="${audioUrl}"></audio>
+<script type="application/json" id="player-data">${embedJson(data)}</script>
+<script>(${playerScript.toString()})();</script>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+};
@@ -0,0 +1,74 @@
+import type { DirectionSetting, TextDirection } from '../types';
+
+export interface LanguageOption {
+  code: string;
+  label: string;
+  direction: TextDirection;
+}
+
+export const AUTO_LANGUAGE = 'auto';
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'ar', label: 'Arabic', direction: 'rtl' },
+  { code: 'ur', label: 'Urdu', direction: 'rtl' },
+  { code: 'fa', label: 'Persian', direction: 'rtl' },
+  { code: 'he', label: 'Hebrew', direction: 'rtl' },
+  { code: 'en', label: 'English', direction: 'ltr' },
+  { code: 'fr', label: 'French', direction: 'ltr' },
+  { code: 'es', label: 'Spanish', direction: 'ltr' },
+  { code: 'de', label: 'German', direction: 'ltr' },
+  { code: 'tr', label: 'Turkish', direction: 'ltr' },
+];
+
+export const getLanguage = (code: string): LanguageOption | undefined =>
+  LANGUAGES.find(language => language.code === code);
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g;
+const HEBREW_SCRIPT = /[\u0590-\u05FF\uFB1D-\uFB4F]/g;
+const LATIN_SCRIPT = /[A-Za-z\u00C0-\u024F]/g;
+// Letters used by Urdu (ٹ ڈ ڑ ں ے ۓ) and by Persian but not Arabic (پ چ ژ گ).
+const URDU_LETTERS = /[ٹڈڑںےۓ]/g;
+const PERSIAN_LETTERS = /[پچژگ]/g;
+
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'you', 'was'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'que', 'dans', 'pas'],
+  es: ['el', 'los', 'las', 'y', 'que', 'es', 'una', 'por', 'con', 'del'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'ein', 'zu', 'mit', 'den'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'ne', 'olarak'],
+};
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/**
+ * Guesses a transcript's language from its script and, for Latin text, common short words.
+ * It only needs to be good enough for a default the user can override.
+ */
+export const detectLanguage = (text: string): string => {
+  const arabic = count(text, ARABIC_SCRIPT);
+  const hebrew = count(text, HEBREW_SCRIPT);
+  const latin = count(text, LATIN_SCRIPT);
+  if (arabic === 0 && hebrew === 0 && latin === 0) return 'ar';
+  if (hebrew > arabic && hebrew > latin) return 'he';
+  if (arabic >= latin) {
+    if (count(text, URDU_LETTERS) > 0) return 'ur';
+    return count(text, PERSIAN_LETTERS) > 0 ? 'fa' : 'ar';
+  }
+  const words = text.toLowerCase().split(/[^\p{L}]+/u);
+  let best = 'en';
+  let bestScore = 0;
+  Object.entries(STOP_WORDS).forEach(([code, stopWords]) => {
+    const score = words.filter(word => stopWords.includes(word)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const resolveLanguage = (setting: string, text: string) =>
+  setting === AUTO_LANGUAGE ? detectLanguage(text) : setting;
+
+export const resolveDirection = (setting: DirectionSetting, language: string): TextDirection =>
+  setting === 'auto' ? getLanguage(language)?.direction ?? 'rtl' : setting;
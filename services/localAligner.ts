@@ -0,0 +1,153 @@
+import type { Aligner, AlignmentRequest, WordTiming } from '../types';
+import { canDecodeAudio, decodeMonoAudio } from './audioUtils';
+import { alignTranslationByLength } from './translation';
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+const FRAME_SECONDS = 0.02;
+const MIN_PAUSE_SECONDS = 0.2;
+const MIN_SEGMENT_SECONDS = 0.08;
+// Extra weight per word so very short words (particles, conjunctions) still get audible time.
+const WORD_BASE_WEIGHT = 1.5;
+// Pauses are the only anchors the proportional spread has; this far from one, a word's timing is a guess.
+const ANCHOR_DRIFT_SECONDS = 3;
+// Reported when no speech was detected and the words were spread over the whole file.
+const UNANCHORED_CONFIDENCE = 0.1;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(sorted.length * p)))];
+
+/**
+ * Energy-based voice activity detection: frames louder than an adaptive threshold
+ * above the noise floor are speech, and short pauses are bridged.
+ */
+export const detectSpeechSegments = (samples: Float32Array, sampleRate: number): SpeechSegment[] => {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameCount = Math.floor(samples.length / frameSize);
+  const energies: number[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(sum / frameSize);
+    energies.push(20 * Math.log10(rms + 1e-10));
+  }
+  if (energies.length === 0) return [];
+
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noiseFloor = percentile(sorted, 0.1);
+  const speechLevel = percentile(sorted, 0.9);
+  const threshold = noiseFloor + Math.max(6, (speechLevel - noiseFloor) * 0.35);
+
+  const segments: SpeechSegment[] = [];
+  let segmentStart = -1;
+  energies.forEach((energy, f) => {
+    if (energy >= threshold && segmentStart === -1) {
+      segmentStart = f;
+    } else if (energy < threshold && segmentStart !== -1) {
+      segments.push({ start: segmentStart * FRAME_SECONDS, end: f * FRAME_SECONDS });
+      segmentStart = -1;
+    }
+  });
+  if (segmentStart !== -1) {
+    segments.push({ start: segmentStart * FRAME_SECONDS, end: frameCount * FRAME_SECONDS });
+  }
+
+  const merged: SpeechSegment[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && segment.start - previous.end < MIN_PAUSE_SECONDS) {
+      previous.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged.filter(s => s.end - s.start >= MIN_SEGMENT_SECONDS);
+};
+
+/**
+ * Spreads the transcript words over the detected speech, giving each word a share of
+ * speaking time proportional to its character count. Words never straddle a pause.
+ */
+export const distributeWords = (words: string[], segments: SpeechSegment[]): WordTiming[] => {
+  const speechTotal = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+  const weights = words.map(w => [...w].length + WORD_BASE_WEIGHT);
+  const weightTotal = weights.reduce((sum, w) => sum + w, 0);
+  if (!segments.length || speechTotal <= 0 || weightTotal <= 0) return [];
+
+  // Maps a position on the concatenated "speech only" timeline back to real time.
+  const locate = (speechTime: number) => {
+    let elapsed = 0;
+    for (let i = 0; i < segments.length; i++) {
+      const length = segments[i].end - segments[i].start;
+      if (speechTime <= elapsed + length || i === segments.length - 1) {
+        return { segment: i, time: segments[i].start + Math.min(length, speechTime - elapsed) };
+      }
+      elapsed += length;
+    }
+    return { segment: segments.length - 1, time: segments[segments.length - 1].end };
+  };
+
+  const timings: WordTiming[] = [];
+  let cursor = 0;
+  words.forEach((word, index) => {
+    const span = (weights[index] / weightTotal) * speechTotal;
+    const from = locate(cursor);
+    const to = locate(cursor + span);
+    cursor += span;
+
+    let start = from.time;
+    let end = to.time;
+    if (to.segment !== from.segment) {
+      const before = segments[from.segment].end - from.time;
+      const after = to.time - segments[to.segment].start;
+      if (before >= after) {
+        end = segments[from.segment].end;
+      } else {
+        start = segments[to.segment].start;
+      }
+    }
+    timings.push({ word, start, end: Math.max(end, start + 0.01) });
+  });
+  return timings;
+};
+
+/**
+ * The aligner's own estimate for each word, as `reportedConfidence`: high next to a pause, where
+ * the spread is pinned to the audio, falling off as errors in the speaking-rate guess accumulate
+ * towards the middle of a long stretch of speech.
+ */
+export const anchorConfidence = (timings: WordTiming[], segments: SpeechSegment[]): WordTiming[] => {
+  let index = 0;
+  return timings.map(timing => {
+    const middle = (timing.start + timing.end) / 2;
+    while (index < segments.length - 1 && segments[index].end < middle) index++;
+    const segment = segments[index];
+    const distance = segment ? Math.min(Math.abs(middle - segment.start), Math.abs(segment.end - middle)) : Infinity;
+    return { ...timing, reportedConfidence: Math.round(Math.max(0, 1 - distance / ANCHOR_DRIFT_SECONDS) * 100) / 100 };
+  });
+};
+
+export const localAligner: Aligner = {
+  id: 'local',
+  label: 'Local (offline)',
+  description: 'Runs in your browser. Detects speech by loudness and spreads words by length — approximate, but needs no network or API key.',
+  requiresNetwork: false,
+  model: 'energy-1',
+  isAvailable: canDecodeAudio,
+  align: async ({ audio, transcript }: AlignmentRequest): Promise<WordTiming[]> => {
+    const decoded = await decodeMonoAudio(audio);
+    const words = transcript.split(/\s+/).filter(Boolean);
+    const segments = detectSpeechSegments(decoded.samples, decoded.sampleRate);
+    if (!segments.length) {
+      return distributeWords(words, [{ start: 0, end: decoded.duration }])
+        .map(timing => ({ ...timing, reportedConfidence: UNANCHORED_CONFIDENCE }));
+    }
+    return anchorConfidence(distributeWords(words, segments), segments);
+  },
+  alignTranslation: async request => alignTranslationByLength(request),
+};
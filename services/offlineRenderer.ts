@@ -0,0 +1,159 @@
+import * as WebM from 'webm-muxer';
+import * as Mp4 from 'mp4-muxer';
+import type { ExportSettings, Speaker, TextDirection, Translation, ViewElement, WordTiming } from '../types';
+import { decodeAudio } from './audioUtils';
+import { createVideoRenderer } from './videoRenderer';
+import { findOfflineCodecs, getContainer, type OfflineCodecs } from './videoCodecs';
+import { UnsupportedExportConfigError } from './errors';
+
+export interface OfflineRenderOptions {
+  audio: Blob;
+  viewElements: ViewElement[];
+  wordTimings: WordTiming[];
+  settings: ExportSettings;
+  backgroundImage?: HTMLImageElement | null;
+  direction?: TextDirection;
+  translation?: Translation | null;
+  speakers?: Speaker[] | null;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHUNK_SECONDS = 0.5;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+interface EncodedMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => void;
+  target: { buffer: ArrayBuffer };
+}
+
+const createMuxer = (settings: ExportSettings, codecs: OfflineCodecs, numberOfChannels: number): EncodedMuxer => {
+  const video = { width: settings.width, height: settings.height, frameRate: settings.fps };
+  const audio = { sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels };
+  if (settings.container === 'mp4') {
+    return new Mp4.Muxer({
+      target: new Mp4.ArrayBufferTarget(),
+      video: { ...video, codec: codecs.videoMuxerCodec as 'avc' },
+      audio: { ...audio, codec: codecs.audioMuxerCodec as 'aac' | 'opus' },
+      fastStart: 'in-memory',
+      firstTimestampBehavior: 'offset',
+    });
+  }
+  return new WebM.Muxer({
+    target: new WebM.ArrayBufferTarget(),
+    video: { ...video, codec: codecs.videoMuxerCodec },
+    audio: { ...audio, codec: codecs.audioMuxerCodec },
+    firstTimestampBehavior: 'offset',
+  });
+};
+
+// Waits on the encoder's own "dequeue" event rather than timers, which background tabs throttle.
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+  }
+};
+
+/**
+ * Renders every frame at its exact timestamp and encodes it with WebCodecs, so the
+ * result is deterministic and not limited to real-time speed.
+ */
+export const renderVideoOffline = async ({
+  audio,
+  viewElements,
+  wordTimings,
+  settings,
+  backgroundImage,
+  direction,
+  translation,
+  speakers,
+  onProgress,
+  signal,
+}: OfflineRenderOptions): Promise<Blob> => {
+  const audioBuffer = await decodeAudio(audio, AUDIO_SAMPLE_RATE);
+  signal?.throwIfAborted();
+  const numberOfChannels = Math.min(2, audioBuffer.numberOfChannels);
+  const codecs = await findOfflineCodecs(settings.container, settings, { sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels });
+  if (!codecs) {
+    throw new UnsupportedExportConfigError(
+      `This browser cannot encode ${getContainer(settings.container).label} at ${settings.width}×${settings.height}.`,
+    );
+  }
+  const muxer = createMuxer(settings, codecs, numberOfChannels);
+
+  let encoderError: Error | null = null;
+  const onError = (err: Error) => { encoderError = err; };
+  const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: onError });
+  const audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: onError });
+  videoEncoder.configure(codecs.videoConfig);
+  audioEncoder.configure(codecs.audioConfig);
+
+  const canvas = document.createElement('canvas');
+  const renderer = createVideoRenderer(canvas, viewElements, wordTimings, settings, backgroundImage, direction, translation, speakers);
+
+  // Audio is fed alongside the video so the muxer can interleave both tracks.
+  let audioCursor = 0;
+  const encodeAudioUntil = (seconds: number) => {
+    const endFrame = Math.min(audioBuffer.length, Math.ceil(seconds * AUDIO_SAMPLE_RATE));
+    const chunkFrames = AUDIO_CHUNK_SECONDS * AUDIO_SAMPLE_RATE;
+    while (audioCursor < endFrame) {
+      const frames = Math.min(chunkFrames, audioBuffer.length - audioCursor);
+      const data = new Float32Array(frames * numberOfChannels);
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        data.set(audioBuffer.getChannelData(channel).subarray(audioCursor, audioCursor + frames), channel * frames);
+      }
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((audioCursor / AUDIO_SAMPLE_RATE) * 1e6),
+        data,
+      });
+      audioEncoder.encode(audioData);
+      audioData.close();
+      audioCursor += frames;
+    }
+  };
+
+  const closeEncoders = () => {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  };
+
+  try {
+    const duration = audioBuffer.duration;
+    const frameCount = Math.max(1, Math.ceil(duration * settings.fps));
+    const frameDuration = 1e6 / settings.fps;
+    const keyFrameInterval = Math.round(settings.fps * KEYFRAME_INTERVAL_SECONDS);
+
+    for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+      signal?.throwIfAborted();
+      if (encoderError) throw encoderError;
+
+      const time = frameIndex / settings.fps;
+      renderer.renderFrame(time, 1 / settings.fps);
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(frameIndex * frameDuration), duration: Math.round(frameDuration) });
+      videoEncoder.encode(frame, { keyFrame: frameIndex % keyFrameInterval === 0 });
+      frame.close();
+      encodeAudioUntil(time + 1 / settings.fps);
+
+      await waitForQueue(videoEncoder);
+      await waitForQueue(audioEncoder);
+      onProgress?.((frameIndex + 1) / frameCount);
+    }
+    encodeAudioUntil(duration);
+
+    await videoEncoder.flush();
+    await audioEncoder.flush();
+    if (encoderError) throw encoderError;
+    muxer.finalize();
+    return new Blob([muxer.target.buffer], { type: getContainer(settings.container).mimeType });
+  } finally {
+    closeEncoders();
+  }
+};
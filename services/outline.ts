@@ -0,0 +1,42 @@
+import type { OutlineEntry, TextSegment } from '../types';
+
+// A heading is a paragraph of a single short line that does not end like a sentence.
+const HEADING_MAX_WORDS = 10;
+const SENTENCE_END = /[.!?؟،؛۔…,]["'»”)\]]*$/;
+const TITLE_WORDS = 8;
+
+const isHeading = (paragraph: TextSegment) =>
+  !paragraph.text.includes('\n')
+  && paragraph.end - paragraph.start < HEADING_MAX_WORDS
+  && !SENTENCE_END.test(paragraph.text);
+
+const shorten = (text: string) => {
+  const words = text.split(/\s+/);
+  return words.length > TITLE_WORDS ? `${words.slice(0, TITLE_WORDS).join(' ')}…` : text;
+};
+
+/**
+ * The transcript's sections for the outline sidebar: its headings when it has any, each spanning
+ * up to the next one, and otherwise one entry per paragraph titled with its opening words.
+ */
+export const buildOutline = (paragraphs: TextSegment[]): OutlineEntry[] => {
+  const headings = paragraphs.filter(isHeading);
+  // A transcript made only of short lines (e.g. verse) has no headings to speak of.
+  if (headings.length > 0 && headings.length < paragraphs.length) {
+    const lastWord = paragraphs[paragraphs.length - 1].end;
+    return headings.map((heading, i) => ({
+      kind: 'heading',
+      title: heading.text,
+      start: heading.start,
+      end: i + 1 < headings.length ? headings[i + 1].start - 1 : lastWord,
+      startTime: heading.startTime,
+    }));
+  }
+  return paragraphs.map(paragraph => ({
+    kind: 'paragraph',
+    title: shorten(paragraph.text.replace(/\s+/g, ' ')),
+    start: paragraph.start,
+    end: paragraph.end,
+    startTime: paragraph.startTime,
+  }));
+};
@@ -0,0 +1,112 @@
+import type { AudioPreprocessing, WordTiming } from '../types';
+import { decodeAudio } from './audioUtils';
+import { AudioDecodeError } from './errors';
+import { findSpeechBounds } from './recording';
+import { encodeWav } from './wav';
+
+const STORAGE_KEY = 'preprocess-settings';
+
+export const PREPROCESS_SAMPLE_RATES = [8000, 16000, 22050, 44100];
+
+// Speech models work at 16 kHz, so anything above that only makes the upload bigger.
+export const DEFAULT_PREPROCESSING: AudioPreprocessing = {
+  enabled: false,
+  sampleRate: 16000,
+  normalize: true,
+  trimSilence: true,
+  range: null,
+};
+
+// Loudness target for normalization, with a ceiling so peaks don't clip.
+const TARGET_RMS_DB = -20;
+const PEAK_CEILING = 0.89; // -1 dBFS
+
+export interface PreprocessedAudio {
+  audio: File;
+  // Where the processed audio starts on the original file's timeline, in seconds.
+  offset: number;
+  duration: number;
+}
+
+// The range is per file, so only the processing options are remembered.
+export const loadPreprocessing = (): AudioPreprocessing => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_PREPROCESSING, ...(stored ? JSON.parse(stored) : {}), range: null };
+  } catch {
+    return DEFAULT_PREPROCESSING;
+  }
+};
+
+export const savePreprocessing = (settings: AudioPreprocessing) => {
+  const { range, ...rest } = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+  } catch (err) {
+    console.warn("Could not persist preprocessing settings:", err);
+  }
+};
+
+// Identifies the processing applied, so resumable jobs aren't mixed up between settings.
+export const preprocessingKey = (settings: AudioPreprocessing) =>
+  settings.enabled ? JSON.stringify([settings.sampleRate, settings.normalize, settings.trimSilence, settings.range]) : '';
+
+const normalizeLoudness = (samples: Float32Array) => {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  if (rms === 0 || peak === 0) return;
+  const gain = Math.min(10 ** (TARGET_RMS_DB / 20) / rms, PEAK_CEILING / peak);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+};
+
+/**
+ * Prepares an upload for alignment: decodes it, renders the selected range to mono at the
+ * target rate with an OfflineAudioContext (which downmixes and resamples), normalizes the
+ * loudness and trims leading and trailing silence. Returns a WAV plus the offset needed
+ * to map timings back onto the original file.
+ */
+export const preprocessAudio = async (audio: Blob, settings: AudioPreprocessing): Promise<PreprocessedAudio> => {
+  // Decoding straight to the target rate keeps a long 48 kHz upload from being held in memory at full rate.
+  const decoded = await decodeAudio(audio, settings.sampleRate);
+  const from = Math.max(0, Math.min(settings.range?.start ?? 0, decoded.duration));
+  const to = Math.max(from, Math.min(settings.range?.end ?? decoded.duration, decoded.duration));
+  const length = Math.ceil((to - from) * settings.sampleRate);
+  if (length <= 0) {
+    throw new AudioDecodeError();
+  }
+
+  const context = new OfflineAudioContext(1, length, settings.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start(0, from, to - from);
+  const rendered = await context.startRendering();
+  let samples = rendered.getChannelData(0);
+
+  if (settings.normalize) normalizeLoudness(samples);
+
+  let offset = from;
+  if (settings.trimSilence) {
+    const bounds = findSpeechBounds(samples, settings.sampleRate);
+    if (bounds) {
+      samples = samples.subarray(Math.floor(bounds.start * settings.sampleRate), Math.ceil(bounds.end * settings.sampleRate));
+      offset += bounds.start;
+    }
+  }
+
+  const name = audio instanceof File ? audio.name.replace(/\.[^.]+$/, '') : 'audio';
+  return {
+    audio: new File([encodeWav(samples, settings.sampleRate)], `${name}.preprocessed.wav`, { type: 'audio/wav' }),
+    offset,
+    duration: samples.length / settings.sampleRate,
+  };
+};
+
+// Moves timings from the processed audio's timeline back onto the original file's.
+export const mapTimingsToOriginal = (timings: WordTiming[], offset: number): WordTiming[] =>
+  offset === 0 ? timings : timings.map(timing => ({ ...timing, start: timing.start + offset, end: timing.end + offset }));
@@ -0,0 +1,101 @@
+import type { DirectionSetting, Project, TimingHistory, Translation, WordTiming } from '../types';
+import { parseBookmarks } from './bookmarks';
+import { createProjectId } from './projectStore';
+import { isSpeaker } from './timingFormats';
+import { createZip, readZip } from './zip';
+
+const MANIFEST_NAME = 'project.json';
+const BUNDLE_VERSION = 1;
+const DIRECTIONS: DirectionSetting[] = ['auto', 'ltr', 'rtl'];
+
+type ManifestFields = { [K in keyof Project]?: unknown } & { version?: unknown; audioPath?: unknown; audioType?: unknown };
+
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const { audio, id, ...metadata } = project;
+  const audioPath = `audio/${project.audioName}`;
+  const manifest = { version: BUNDLE_VERSION, ...metadata, audioPath, audioType: audio.type };
+  return createZip([
+    { name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    { name: audioPath, data: new Uint8Array(await audio.arrayBuffer()) },
+  ]);
+};
+
+const isWordTiming = (value: unknown): value is WordTiming => {
+  const timing = value as Partial<Record<keyof WordTiming, unknown>> | null;
+  return typeof timing?.word === 'string' && typeof timing.start === 'number' && typeof timing.end === 'number';
+};
+
+const isTimingList = (value: unknown): value is WordTiming[] => Array.isArray(value) && value.every(isWordTiming);
+
+const isHistory = (value: unknown): value is TimingHistory => {
+  const history = value as Partial<Record<keyof TimingHistory, unknown>> | null;
+  return Array.isArray(history?.past) && history.past.every(isTimingList)
+    && Array.isArray(history.future) && history.future.every(isTimingList);
+};
+
+const isTranslation = (value: unknown): value is Translation => {
+  const translation = value as Partial<Record<keyof Translation, unknown>> | null;
+  return typeof translation?.text === 'string' && typeof translation.language === 'string'
+    && Array.isArray(translation.segments) && translation.segments.every(segment => typeof segment === 'string');
+};
+
+const readManifest = (data: Uint8Array): ManifestFields => {
+  try {
+    const manifest = JSON.parse(new TextDecoder().decode(data));
+    if (manifest && typeof manifest === 'object' && !Array.isArray(manifest)) return manifest;
+  } catch {
+    // Reported below like any other malformed manifest.
+  }
+  throw new Error(`${MANIFEST_NAME} is not a project manifest.`);
+};
+
+/**
+ * Imported bundles always get a fresh id so they never overwrite a local project. The required
+ * fields must be well formed and the archive must hold exactly the manifest and the audio it
+ * names; optional fields that don't fit are dropped.
+ */
+export const importProjectBundle = async (blob: Blob): Promise<Project> => {
+  const entries = await readZip(blob);
+  const manifestEntry = entries.find(e => e.name === MANIFEST_NAME);
+  if (!manifestEntry) throw new Error(`The bundle has no ${MANIFEST_NAME}.`);
+  const manifest = readManifest(manifestEntry.data);
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error('The bundle was made by a newer version of the app.');
+  }
+  if (typeof manifest.name !== 'string' || typeof manifest.audioName !== 'string' || typeof manifest.transcript !== 'string') {
+    throw new Error(`${MANIFEST_NAME} is missing the project name, audio name or transcript.`);
+  }
+  if (!isTimingList(manifest.timings)) {
+    throw new Error(`${MANIFEST_NAME} has missing or malformed timings.`);
+  }
+  const audioPath = `audio/${manifest.audioName}`;
+  if (manifest.audioPath !== audioPath) {
+    throw new Error(`${MANIFEST_NAME} points at audio that doesn't match its audio name.`);
+  }
+  const audioEntry = entries.find(e => e.name === audioPath);
+  if (!audioEntry) throw new Error('The bundle does not contain its audio file.');
+  // Folder entries, which some zip tools add, carry no data.
+  if (entries.some(e => e !== manifestEntry && e !== audioEntry && !e.name.endsWith('/'))) {
+    throw new Error(`The bundle contains files that ${MANIFEST_NAME} doesn't list.`);
+  }
+
+  const timings = manifest.timings;
+  const audioType = typeof manifest.audioType === 'string' && manifest.audioType ? manifest.audioType : 'application/octet-stream';
+  const now = Date.now();
+  return {
+    id: createProjectId(),
+    name: manifest.name,
+    createdAt: typeof manifest.createdAt === 'number' ? manifest.createdAt : now,
+    updatedAt: now,
+    audio: new Blob([audioEntry.data], { type: audioType }),
+    audioName: manifest.audioName,
+    transcript: manifest.transcript,
+    timings,
+    history: isHistory(manifest.history) ? manifest.history : { past: [], future: [] },
+    language: typeof manifest.language === 'string' ? manifest.language : undefined,
+    direction: DIRECTIONS.find(direction => direction === manifest.direction),
+    translation: isTranslation(manifest.translation) ? manifest.translation : undefined,
+    speakers: Array.isArray(manifest.speakers) ? (manifest.speakers as unknown[]).filter(isSpeaker) : undefined,
+    bookmarks: parseBookmarks(manifest.bookmarks)?.filter(b => b.end < timings.length),
+  };
+};
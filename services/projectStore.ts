@@ -0,0 +1,38 @@
+import type { Project } from '../types';
+import { PROJECTS_STORE, withStore } from './database';
+
+const withProjects = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  withStore(PROJECTS_STORE, mode, run);
+
+export const createProjectId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withProjects<Project[]>('readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string) => withProjects<Project | undefined>('readonly', store => store.get(id));
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  const saved = { ...project, updatedAt: Date.now() };
+  await withProjects('readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const deleteProject = (id: string) => withProjects('readwrite', store => store.delete(id));
+
+export const renameProject = async (id: string, name: string): Promise<Project> => {
+  const project = await getProject(id);
+  if (!project) throw new Error(`Project "${id}" no longer exists.`);
+  return saveProject({ ...project, name });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const project = await getProject(id);
+  if (!project) throw new Error(`Project "${id}" no longer exists.`);
+  const now = Date.now();
+  return saveProject({ ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now });
+};
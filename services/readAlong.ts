@@ -0,0 +1,51 @@
+import { normalizeWord, similarity } from './arabicText';
+
+export interface ReadAlongState {
+  // Index of the next word the reader is expected to say.
+  position: number;
+  // Words passed over without being heard, in order.
+  skipped: number[];
+}
+
+// How far ahead a heard word may match; further jumps are treated as misrecognitions.
+const LOOKAHEAD_WORDS = 6;
+const MATCH_FLOOR = 0.7;
+
+export const INITIAL_READ_ALONG: ReadAlongState = { position: 0, skipped: [] };
+
+/**
+ * Moves the reading position forward over the words just recognised. Each heard word is
+ * matched against the next few expected words; words jumped over count as skipped, and
+ * heard words with no match nearby (repetitions, fillers) are ignored.
+ */
+export const advanceReadAlong = (state: ReadAlongState, expected: string[], heard: string[]): ReadAlongState => {
+  let { position } = state;
+  const skipped = [...state.skipped];
+  heard.map(normalizeWord).filter(Boolean).forEach(word => {
+    const limit = Math.min(expected.length, position + LOOKAHEAD_WORDS);
+    for (let j = position; j < limit; j++) {
+      if (similarity(word, expected[j], MATCH_FLOOR) >= MATCH_FLOOR) {
+        for (let k = position; k < j; k++) skipped.push(k);
+        position = j + 1;
+        return;
+      }
+    }
+  });
+  return position === state.position ? state : { position, skipped };
+};
+
+/**
+ * Reading speed against the reference recording for the words read so far: 1 means the same
+ * pace, above 1 faster. Null until there is enough to compare.
+ */
+export const readingPace = (
+  timings: { start: number; end: number }[],
+  from: number,
+  position: number,
+  elapsedSeconds: number,
+): number | null => {
+  const first = timings[from];
+  const last = timings[position - 1];
+  if (!first || !last || position - from < 3 || elapsedSeconds <= 0) return null;
+  return (last.end - first.start) / elapsedSeconds;
+};
@@ -0,0 +1,133 @@
+import type { ReaderAnnouncement, ReaderSettings, ReaderTheme, ReadingGuide } from '../types';
+
+const STORAGE_KEY = 'reader-settings';
+
+// Atkinson Hyperlegible and Lexend are designed for low-vision and dyslexic readers; Latin only,
+// so Arabic text falls back to Noto Naskh Arabic.
+export const READER_FONTS = ['Noto Naskh Arabic', 'Amiri', 'Cairo', 'Tajawal', 'Atkinson Hyperlegible', 'Lexend', 'Verdana'];
+
+export const READER_FONT_SIZE = { min: 18, max: 72, step: 2 };
+
+export const READER_THEMES: { id: ReaderTheme; label: string }[] = [
+  { id: 'light', label: 'Light' },
+  { id: 'sepia', label: 'Sepia' },
+  { id: 'dark', label: 'Dark' },
+  { id: 'high-contrast', label: 'High contrast' },
+];
+
+export const READING_GUIDES: { id: ReadingGuide; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'ruler', label: 'Reading ruler' },
+  { id: 'mask', label: 'Focus line (mask the rest)' },
+];
+
+export const READER_ANNOUNCEMENTS: { id: ReaderAnnouncement; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'sentence', label: 'Each sentence' },
+  { id: 'word', label: 'Each word' },
+];
+
+// Tailwind classes for each theme. The light theme's are the ones the HTML player export styles.
+export interface ReaderThemeClasses {
+  container: string;
+  word: string;
+  unread: string;
+  active: string;
+  range: string;
+  segment: string;
+  // The translation line beside or under the current sentence, and the others.
+  translationCurrent: string;
+  translation: string;
+  hover: string;
+  guide: string;
+  mask: string;
+}
+
+export const THEME_CLASSES: Record<ReaderTheme, ReaderThemeClasses> = {
+  light: {
+    container: 'bg-gray-50/70 border-gray-200',
+    word: 'text-gray-800',
+    unread: 'text-gray-400',
+    active: 'text-black bg-yellow-300',
+    range: 'text-gray-900 bg-yellow-100',
+    segment: 'text-gray-900 bg-amber-100',
+    translationCurrent: 'bg-amber-100 text-gray-900',
+    translation: 'text-gray-500',
+    hover: 'hover:bg-yellow-100',
+    guide: 'bg-yellow-300/25 border-y-2 border-yellow-500/60',
+    mask: 'bg-gray-100/80',
+  },
+  sepia: {
+    container: 'bg-[#f4ecd8] border-[#e0d3b5]',
+    word: 'text-[#433422]',
+    unread: 'text-[#a8916d]',
+    active: 'text-[#2b1f12] bg-[#f0c75e]',
+    range: 'text-[#2b1f12] bg-[#f6e7b8]',
+    segment: 'text-[#2b1f12] bg-[#f3dfa8]',
+    translationCurrent: 'bg-[#f3dfa8] text-[#2b1f12]',
+    translation: 'text-[#7a6548]',
+    hover: 'hover:bg-[#f6e7b8]',
+    guide: 'bg-[#f0c75e]/25 border-y-2 border-[#c99a2e]/60',
+    mask: 'bg-[#f4ecd8]/80',
+  },
+  dark: {
+    container: 'bg-gray-900 border-gray-700',
+    word: 'text-gray-200',
+    unread: 'text-gray-500',
+    active: 'text-gray-900 bg-yellow-400',
+    range: 'text-white bg-yellow-900/60',
+    segment: 'text-white bg-amber-900/60',
+    translationCurrent: 'bg-amber-900/60 text-white',
+    translation: 'text-gray-400',
+    hover: 'hover:bg-gray-700',
+    guide: 'bg-yellow-400/15 border-y-2 border-yellow-400/60',
+    mask: 'bg-gray-900/80',
+  },
+  'high-contrast': {
+    container: 'bg-black border-white',
+    word: 'text-white',
+    unread: 'text-gray-300',
+    active: 'text-black bg-yellow-300 outline outline-2 outline-white',
+    range: 'text-black bg-cyan-300',
+    segment: 'text-white bg-blue-800 underline',
+    translationCurrent: 'bg-blue-800 text-white',
+    translation: 'text-gray-200',
+    hover: 'hover:bg-gray-800',
+    guide: 'border-y-4 border-yellow-300',
+    mask: 'bg-black/90',
+  },
+};
+
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+export const getDefaultReaderSettings = (): ReaderSettings => ({
+  fontFamily: 'Noto Naskh Arabic',
+  fontSize: 36,
+  lineHeight: 2,
+  letterSpacing: 0,
+  wordSpacing: 0,
+  theme: 'light',
+  reducedMotion: prefersReducedMotion(),
+  readingGuide: 'off',
+  announce: 'off',
+});
+
+export const readerFontStack = (fontFamily: string) => `'${fontFamily}', 'Noto Naskh Arabic', serif`;
+
+export const loadReaderSettings = (): ReaderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return { ...getDefaultReaderSettings(), ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return getDefaultReaderSettings();
+  }
+};
+
+export const saveReaderSettings = (settings: ReaderSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist reader settings:", err);
+  }
+};
@@ -0,0 +1,190 @@
+import type { ReconciliationIssue, ReconciliationResult, WordTiming } from '../types';
+import { isWordLike, normalizeWord, similarity } from './arabicText';
+
+export interface TranscriptToken {
+  text: string;
+  normalized: string;
+  offset: number;
+}
+
+// Alignment operations, stored as back-pointers in the DP table.
+const enum Op { None, Match, SkipTranscript, SkipModel, Merge, Split }
+
+const SKIP_COST = 1;
+const MERGE_PENALTY = 0.1;
+const MIN_SIMILARITY = 0.5;
+// Merges and splits must be near-exact, otherwise a match plus a skip is the better explanation.
+const MIN_MERGE_SIMILARITY = 0.8;
+const BAND_WIDTH = 200;
+const FALLBACK_WORD_SECONDS = 0.3;
+
+export const tokenizeTranscript = (text: string): TranscriptToken[] => {
+  const tokens: TranscriptToken[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    if (!isWordLike(match[0])) continue;
+    tokens.push({ text: match[0], normalized: normalizeWord(match[0]), offset: match.index! });
+  }
+  return tokens;
+};
+
+const substitutionCost = (a: string, b: string, minSimilarity = MIN_SIMILARITY) => {
+  const score = similarity(a, b, minSimilarity);
+  return score >= minSimilarity ? 1 - score : Infinity;
+};
+
+/**
+ * Banded sequence alignment of transcript tokens against model words. Besides matches and
+ * skips it allows one model word to cover two transcript words (merge) and the reverse (split).
+ */
+const alignSequences = (transcript: string[], model: string[]) => {
+  const n = transcript.length;
+  const m = model.length;
+  const band = Math.max(BAND_WIDTH, Math.abs(n - m) + 20);
+  const center = (i: number) => (n === 0 ? 0 : Math.round((i * m) / n));
+  const lo = (i: number) => Math.max(0, center(i) - band);
+  const hi = (i: number) => Math.min(m, center(i) + band);
+  const width = 2 * band + 1;
+  const transcriptPairs = transcript.map((word, i) => (i > 0 ? transcript[i - 1] + word : ''));
+  const modelPairs = model.map((word, j) => (j > 0 ? model[j - 1] + word : ''));
+
+  const cost = new Float64Array((n + 1) * width).fill(Infinity);
+  const ops = new Uint8Array((n + 1) * width);
+  const cell = (i: number, j: number) => (j < lo(i) || j > hi(i) ? -1 : i * width + (j - lo(i)));
+  const get = (i: number, j: number) => {
+    if (i < 0 || j < 0) return Infinity;
+    const c = cell(i, j);
+    return c === -1 ? Infinity : cost[c];
+  };
+
+  cost[cell(0, 0)] = 0;
+  for (let i = 0; i <= n; i++) {
+    for (let j = lo(i); j <= hi(i); j++) {
+      if (i === 0 && j === 0) continue;
+      let best = Infinity;
+      let op = Op.None;
+      // Cheap skips first so the similarity of a pair is only computed when it could still win.
+      const consider = (base: number, extra: number, candidateOp: Op, score: () => number) => {
+        if (base + extra >= best) return;
+        const candidate = base + extra + score();
+        if (candidate < best) {
+          best = candidate;
+          op = candidateOp;
+        }
+      };
+      if (i > 0) consider(get(i - 1, j), SKIP_COST, Op.SkipTranscript, () => 0);
+      if (j > 0) consider(get(i, j - 1), SKIP_COST, Op.SkipModel, () => 0);
+      if (i > 0 && j > 0) consider(get(i - 1, j - 1), 0, Op.Match, () => substitutionCost(transcript[i - 1], model[j - 1]));
+      if (i > 1 && j > 0) consider(get(i - 2, j - 1), MERGE_PENALTY, Op.Merge, () => substitutionCost(transcriptPairs[i - 1], model[j - 1], MIN_MERGE_SIMILARITY));
+      if (i > 0 && j > 1) consider(get(i - 1, j - 2), MERGE_PENALTY, Op.Split, () => substitutionCost(transcript[i - 1], modelPairs[j - 1], MIN_MERGE_SIMILARITY));
+      const c = cell(i, j);
+      cost[c] = best;
+      ops[c] = op;
+    }
+  }
+
+  const steps: { op: Op; i: number; j: number }[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const c = cell(i, j);
+    const op: Op = c === -1 ? (i > 0 ? Op.SkipTranscript : Op.SkipModel) : ops[c];
+    steps.push({ op, i, j });
+    if (op === Op.Match) { i--; j--; }
+    else if (op === Op.SkipTranscript) { i--; }
+    else if (op === Op.SkipModel) { j--; }
+    else if (op === Op.Merge) { i -= 2; j--; }
+    else if (op === Op.Split) { i--; j -= 2; }
+    else if (i > 0) { i--; } else { j--; }
+  }
+  return steps.reverse();
+};
+
+// Gives words the model skipped a share of the gap between their timed neighbours.
+const interpolateMissing = (tokens: TranscriptToken[], times: (WordTiming | null)[]) => {
+  let index = 0;
+  while (index < times.length) {
+    if (times[index]) { index++; continue; }
+    const runStart = index;
+    while (index < times.length && !times[index]) index++;
+    const previous = times[runStart - 1];
+    const next = times[index];
+    const from = previous ? previous.end : 0;
+    const count = index - runStart;
+    const to = next ? Math.max(from, next.start) : from + count * FALLBACK_WORD_SECONDS;
+    // Skipped words are most likely said by whoever said the word before them.
+    const speaker = previous?.speaker ?? next?.speaker;
+    const weights = tokens.slice(runStart, index).map(t => t.text.length + 1);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    let cursor = from;
+    for (let k = runStart; k < index; k++) {
+      const span = ((to - from) * weights[k - runStart]) / totalWeight;
+      times[k] = { word: tokens[k].text, start: cursor, end: cursor + span, ...(speaker ? { speaker } : {}) };
+      cursor += span;
+    }
+  }
+};
+
+// Carries the aligner's self-reported confidence (the lowest one when words were combined) and
+// speaker label over.
+const withReport = (timing: WordTiming, ...sources: WordTiming[]): WordTiming => {
+  const reported = sources.map(s => s.reportedConfidence).filter((c): c is number => typeof c === 'number');
+  const speaker = sources.find(s => s.speaker)?.speaker;
+  return {
+    ...timing,
+    ...(reported.length ? { reportedConfidence: Math.min(...reported) } : {}),
+    ...(speaker ? { speaker } : {}),
+  };
+};
+
+/**
+ * Maps arbitrary model output onto the words of the user's transcript. The result has exactly
+ * one timing per transcript word, with `word` taken verbatim from the transcript.
+ */
+export const reconcileTimings = (transcript: string, modelTimings: WordTiming[]): ReconciliationResult => {
+  const tokens = tokenizeTranscript(transcript);
+  const model = modelTimings
+    .filter(t => isWordLike(t.word))
+    .map(t => ({ ...t, normalized: normalizeWord(t.word) }));
+
+  const times: (WordTiming | null)[] = tokens.map(() => null);
+  const issues: ReconciliationIssue[] = [];
+
+  alignSequences(tokens.map(t => t.normalized), model.map(t => t.normalized)).forEach(({ op, i, j }) => {
+    switch (op) {
+      case Op.Match: {
+        const token = tokens[i - 1];
+        const timing = model[j - 1];
+        times[i - 1] = withReport({ word: token.text, start: timing.start, end: timing.end }, timing);
+        if (token.normalized !== timing.normalized) {
+          issues.push({ kind: 'substituted', transcriptIndex: i - 1, transcriptWord: token.text, modelWords: [timing.word] });
+        }
+        break;
+      }
+      case Op.Merge: {
+        const [first, second] = [tokens[i - 2], tokens[i - 1]];
+        const timing = model[j - 1];
+        const cut = timing.start + (timing.end - timing.start) * (first.text.length / (first.text.length + second.text.length));
+        times[i - 2] = withReport({ word: first.text, start: timing.start, end: cut }, timing);
+        times[i - 1] = withReport({ word: second.text, start: cut, end: timing.end }, timing);
+        issues.push({ kind: 'merged', transcriptIndex: i - 2, transcriptWord: `${first.text} ${second.text}`, modelWords: [timing.word] });
+        break;
+      }
+      case Op.Split: {
+        const token = tokens[i - 1];
+        const [first, second] = [model[j - 2], model[j - 1]];
+        times[i - 1] = withReport({ word: token.text, start: first.start, end: second.end }, first, second);
+        issues.push({ kind: 'split', transcriptIndex: i - 1, transcriptWord: token.text, modelWords: [first.word, second.word] });
+        break;
+      }
+      case Op.SkipTranscript:
+        issues.push({ kind: 'missing', transcriptIndex: i - 1, transcriptWord: tokens[i - 1].text, modelWords: [] });
+        break;
+      case Op.SkipModel:
+        issues.push({ kind: 'extra', modelWords: [model[j - 1].word] });
+        break;
+    }
+  });
+
+  interpolateMissing(tokens, times);
+  return { timings: times as WordTiming[], issues };
+};
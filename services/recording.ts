@@ -0,0 +1,40 @@
+import { decodeAudio, getMonoSamples } from './audioUtils';
+import { detectSpeechSegments } from './localAligner';
+import { encodeWav } from './wav';
+
+// Silence kept around the speech when trimming, so the first and last words aren't clipped.
+const SPEECH_PADDING_SECONDS = 0.15;
+
+export const RECORDING_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+};
+
+// Where speech starts and ends in a recording, or null if none was detected.
+export const findSpeechBounds = (samples: Float32Array, sampleRate: number) => {
+  const segments = detectSpeechSegments(samples, sampleRate);
+  if (!segments.length) return null;
+  const duration = samples.length / sampleRate;
+  return {
+    start: Math.max(0, segments[0].start - SPEECH_PADDING_SECONDS),
+    end: Math.min(duration, segments[segments.length - 1].end + SPEECH_PADDING_SECONDS),
+  };
+};
+
+// Cuts a recording to [start, end] seconds. The result is a mono WAV, which is all narration needs.
+export const trimAudio = async (audio: Blob, start: number, end: number): Promise<Blob> => {
+  const buffer = await decodeAudio(audio);
+  const samples = getMonoSamples(buffer);
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(samples.length, Math.ceil(end * buffer.sampleRate));
+  return encodeWav(samples.slice(from, Math.max(from, to)), buffer.sampleRate);
+};
+
+export const recordingFileName = (mimeType: string, date = new Date()) => {
+  const extension = RECORDING_EXTENSIONS[mimeType.split(';')[0]] ?? 'webm';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `recording-${stamp}.${extension}`;
+};
@@ -0,0 +1,39 @@
+import type { WordRange, WordTiming } from '../types';
+import { normalizeWord } from './arabicText';
+
+// Beyond this many hits the query is too broad to be useful, and highlighting them all gets slow.
+export const MAX_SEARCH_HITS = 1000;
+
+// Normalized once per transcript; searching then only normalizes the query.
+export const buildSearchIndex = (timings: WordTiming[]): string[] => timings.map(t => normalizeWord(t.word));
+
+// A lone term may match inside a word (prefixes such as ال- or و-); a phrase must run across
+// whole words, except that its first and last terms may be the end and start of a word.
+const termMatches = (word: string, term: string, position: number, count: number) => {
+  if (count === 1) return word.includes(term);
+  if (position === 0) return word.endsWith(term);
+  if (position === count - 1) return word.startsWith(term);
+  return word === term;
+};
+
+/**
+ * Finds every occurrence of `query` in the transcript, ignoring diacritics, letter variants,
+ * punctuation and case (see `normalizeWord`). Returns word ranges in order.
+ */
+export const searchTranscript = (index: string[], query: string): WordRange[] => {
+  const terms = query.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (!terms.length) return [];
+  const hits: WordRange[] = [];
+  for (let start = 0; start + terms.length <= index.length && hits.length < MAX_SEARCH_HITS; start++) {
+    if (terms.every((term, k) => termMatches(index[start + k], term, k, terms.length))) {
+      hits.push({ start, end: start + terms.length - 1 });
+    }
+  }
+  return hits;
+};
+
+// The first hit at or after `wordIndex`, wrapping round to the first one.
+export const nextHitFrom = (hits: WordRange[], wordIndex: number) => {
+  const next = hits.findIndex(hit => hit.start >= wordIndex);
+  return next === -1 ? 0 : next;
+};
@@ -0,0 +1,93 @@
+import type { HighlightMode, SegmentKind, TextSegment, TextSegments, ViewElement, ViewElementWord, WordRange } from '../types';
+
+// Sentence-ending punctuation (incl. Arabic ؟ ، ؛ ۔), optionally followed by closing quotes/brackets.
+export const SENTENCE_END = /[.!?؟،؛۔…]["'»”)\]]*$/;
+const PARAGRAPH_BREAK = /\n\s*\n/;
+
+export const HIGHLIGHT_MODES: { id: HighlightMode; label: string }[] = [
+  { id: 'word', label: 'Current word' },
+  { id: 'sentence', label: 'Current sentence' },
+  { id: 'line', label: 'Current line' },
+  { id: 'paragraph', label: 'Current paragraph' },
+  { id: 'progress', label: 'Read / unread' },
+];
+
+const isBreak = (content: string, kind: SegmentKind) =>
+  kind === 'paragraph' ? PARAGRAPH_BREAK.test(content) : content.includes('\n');
+
+// Groups view elements into sentences, source lines or paragraphs. The breaking whitespace is dropped.
+export const splitElements = (viewElements: ViewElement[], kind: SegmentKind): ViewElement[][] => {
+  const groups: ViewElement[][] = [];
+  let current: ViewElement[] = [];
+  const flush = () => {
+    if (current.some(el => el.type === 'word')) groups.push(current);
+    current = [];
+  };
+  viewElements.forEach(element => {
+    if (element.type === 'whitespace' && isBreak(element.content, kind)) {
+      flush();
+      return;
+    }
+    current.push(element);
+    if (kind === 'sentence' && element.type === 'word' && SENTENCE_END.test(element.word)) flush();
+  });
+  flush();
+  return groups;
+};
+
+// Splits plain text (e.g. a translation) into sentences with the same rules as the transcript.
+export const splitTextSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  text.split(/\n+/).forEach(line => {
+    let current: string[] = [];
+    line.split(/\s+/).filter(Boolean).forEach(word => {
+      current.push(word);
+      if (SENTENCE_END.test(word)) {
+        sentences.push(current.join(' '));
+        current = [];
+      }
+    });
+    if (current.length > 0) sentences.push(current.join(' '));
+  });
+  return sentences;
+};
+
+const toSegment = (elements: ViewElement[], kind: SegmentKind, index: number): TextSegment => {
+  const words = elements.filter((el): el is ViewElementWord => el.type === 'word');
+  const first = words[0];
+  const last = words[words.length - 1];
+  return {
+    kind,
+    index,
+    start: first.originalIndex,
+    end: last.originalIndex,
+    startTime: first.start,
+    endTime: last.end,
+    text: elements.map(el => (el.type === 'word' ? el.word : el.content)).join('').trim(),
+  };
+};
+
+export const buildSegments = (viewElements: ViewElement[]): TextSegments => {
+  const build = (kind: SegmentKind) =>
+    splitElements(viewElements, kind).map((group, index) => toSegment(group, kind, index));
+  return { sentence: build('sentence'), line: build('line'), paragraph: build('paragraph') };
+};
+
+// Binary search over sorted, non-overlapping ranges.
+export const findRangeIndex = (ranges: WordRange[], wordIndex: number) => {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (wordIndex < ranges[mid].start) hi = mid - 1;
+    else if (wordIndex > ranges[mid].end) lo = mid + 1;
+    else return mid;
+  }
+  return -1;
+};
+
+// The segment emphasized around the active word, for the segment-level highlight modes.
+export const getActiveSegment = (segments: TextSegments, mode: HighlightMode, wordIndex: number): TextSegment | null => {
+  if (mode === 'word' || mode === 'progress' || wordIndex < 0) return null;
+  return segments[mode][findRangeIndex(segments[mode], wordIndex)] ?? null;
+};
@@ -0,0 +1,60 @@
+import type { Speaker, WordRange, WordTiming } from '../types';
+
+// Readable on both the light reader background and the default export background.
+export const SPEAKER_COLORS = ['#2563eb', '#dc2626', '#059669', '#9333ea', '#d97706', '#db2777', '#0891b2', '#65a30d'];
+
+const colorFor = (index: number) => SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+
+export const createSpeaker = (existing: Speaker[], name?: string): Speaker => {
+  const ids = new Set(existing.map(s => s.id));
+  let n = existing.length + 1;
+  while (ids.has(`speaker-${n}`)) n++;
+  return { id: `speaker-${n}`, name: name?.trim() || `Speaker ${n}`, color: colorFor(existing.length) };
+};
+
+/**
+ * Adds an entry for every speaker label the timings use but `speakers` does not know yet (labels
+ * from diarization or an imported file), named after the label. Returns `speakers` unchanged
+ * when there is nothing to add.
+ */
+export const syncSpeakers = (timings: WordTiming[], speakers: Speaker[]): Speaker[] => {
+  const known = new Set(speakers.map(s => s.id));
+  const added: Speaker[] = [];
+  timings.forEach(timing => {
+    if (!timing.speaker || known.has(timing.speaker)) return;
+    known.add(timing.speaker);
+    added.push({ id: timing.speaker, name: timing.speaker, color: colorFor(speakers.length + added.length) });
+  });
+  return added.length ? [...speakers, ...added] : speakers;
+};
+
+// `speakerId` null clears the label.
+export const assignSpeaker = (timings: WordTiming[], range: WordRange, speakerId: string | null): WordTiming[] =>
+  timings.map((timing, index) => {
+    if (index < range.start || index > range.end) return timing;
+    if (speakerId) return { ...timing, speaker: speakerId };
+    const { speaker, ...rest } = timing;
+    return rest;
+  });
+
+export const removeSpeaker = (timings: WordTiming[], speakerId: string): WordTiming[] => {
+  const first = timings.findIndex(t => t.speaker === speakerId);
+  if (first === -1) return timings;
+  return timings.map(timing => {
+    if (timing.speaker !== speakerId) return timing;
+    const { speaker, ...rest } = timing;
+    return rest;
+  });
+};
+
+export const hasSpeakers = (timings: WordTiming[]) => timings.some(t => t.speaker);
+
+export const countSpeakerWords = (timings: WordTiming[]) =>
+  timings.reduce((counts, timing) => {
+    if (timing.speaker) counts.set(timing.speaker, (counts.get(timing.speaker) ?? 0) + 1);
+    return counts;
+  }, new Map<string, number>());
+
+// Display name for a label, falling back to the label itself.
+export const speakerName = (speakers: Speaker[] | null | undefined, id: string) =>
+  speakers?.find(s => s.id === id)?.name ?? id;
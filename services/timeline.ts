@@ -0,0 +1,59 @@
+import type { WordTiming } from '../types';
+
+export interface Timeline {
+  // Index of the word being spoken at `time`, or -1 between words.
+  activeWordAt: (time: number) => number;
+  // Index of the last word that started at or before `time`, or -1 before the first word.
+  lastStartedAt: (time: number) => number;
+}
+
+/**
+ * Indexes word timings for lookups by time. Playback and rendering mostly move forward in
+ * small steps, so a lookup first checks the word after the previous result and only falls
+ * back to a binary search on seeks.
+ */
+export const createTimeline = (wordTimings: WordTiming[]): Timeline => {
+  const count = wordTimings.length;
+  const starts = Float64Array.from(wordTimings, t => t.start);
+  // Validated timings are sorted, but imported or hand-edited ones may not be.
+  let sorted = true;
+  for (let i = 1; i < count && sorted; i++) sorted = starts[i] >= starts[i - 1];
+  let cursor = -1;
+
+  const search = (time: number) => {
+    let lo = 0;
+    let hi = count - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (starts[mid] <= time) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  };
+
+  const lastStartedAt = (time: number) => {
+    if (!sorted) {
+      let last = -1;
+      for (let i = 0; i < count; i++) if (starts[i] <= time) last = i;
+      return last;
+    }
+    if (cursor >= 0 && cursor < count && starts[cursor] <= time) {
+      if (cursor + 1 >= count || starts[cursor + 1] > time) return cursor;
+      if (cursor + 2 >= count || starts[cursor + 2] > time) return (cursor = cursor + 1);
+    }
+    return (cursor = search(time));
+  };
+
+  const activeWordAt = (time: number) => {
+    if (!sorted) return wordTimings.findIndex(t => time >= t.start && time < t.end);
+    const index = lastStartedAt(time);
+    return index >= 0 && time < wordTimings[index].end ? index : -1;
+  };
+
+  return { activeWordAt, lastStartedAt };
+};
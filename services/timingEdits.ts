@@ -0,0 +1,96 @@
+import type { WordTiming } from '../types';
+
+export const MIN_WORD_DURATION = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const replaceAt = (timings: WordTiming[], index: number, ...items: WordTiming[]) => [
+  ...timings.slice(0, index),
+  ...items,
+  ...timings.slice(index + 1),
+];
+
+/**
+ * Moves one edge of a word. Neighbours are pushed back rather than overlapped,
+ * but never shrunk below MIN_WORD_DURATION.
+ */
+export const setBoundary = (
+  timings: WordTiming[],
+  index: number,
+  edge: 'start' | 'end',
+  time: number,
+  duration = Infinity,
+): WordTiming[] => {
+  const next = timings.map(t => ({ ...t }));
+  const word = next[index];
+  const previous = next[index - 1];
+  const following = next[index + 1];
+
+  if (edge === 'start') {
+    word.start = clamp(time, previous ? previous.start + MIN_WORD_DURATION : 0, word.end - MIN_WORD_DURATION);
+    if (previous && previous.end > word.start) previous.end = word.start;
+  } else {
+    word.end = clamp(time, word.start + MIN_WORD_DURATION, following ? following.end - MIN_WORD_DURATION : duration);
+    if (following && following.start < word.end) following.start = word.end;
+  }
+  return next;
+};
+
+export const nudgeBoundary = (
+  timings: WordTiming[],
+  index: number,
+  edge: 'start' | 'end',
+  delta: number,
+  duration = Infinity,
+) => setBoundary(timings, index, edge, timings[index][edge] + delta, duration);
+
+// Shifts a whole word, staying between its neighbours.
+export const moveWord = (timings: WordTiming[], index: number, delta: number, duration = Infinity): WordTiming[] => {
+  const word = timings[index];
+  const length = word.end - word.start;
+  const min = index > 0 ? timings[index - 1].end : 0;
+  const max = index + 1 < timings.length ? timings[index + 1].start : duration;
+  const start = clamp(word.start + delta, min, Math.max(min, max - length));
+  return replaceAt(timings, index, { ...word, start, end: start + length });
+};
+
+/**
+ * Splits a word in two. The text is cut at its first whitespace, or in the middle when it is a
+ * single token; the time is cut at `atTime` when it falls inside the word, otherwise proportionally.
+ */
+export const splitWord = (timings: WordTiming[], index: number, atTime?: number): WordTiming[] => {
+  const word = timings[index];
+  const characters = [...word.word];
+  if (characters.length < 2) return timings;
+
+  const whitespace = word.word.match(/\s+/);
+  const [left, right] = whitespace && whitespace.index
+    ? [word.word.slice(0, whitespace.index), word.word.slice(whitespace.index + whitespace[0].length)]
+    : [characters.slice(0, Math.ceil(characters.length / 2)).join(''), characters.slice(Math.ceil(characters.length / 2)).join('')];
+
+  const inside = atTime !== undefined && atTime > word.start + MIN_WORD_DURATION && atTime < word.end - MIN_WORD_DURATION;
+  const splitTime = inside
+    ? atTime!
+    : word.start + (word.end - word.start) * (left.length / (left.length + right.length));
+
+  return replaceAt(
+    timings,
+    index,
+    { ...word, word: left, end: splitTime },
+    { ...word, word: right, start: splitTime },
+  );
+};
+
+// Joins a word with the one after it; `separator` is the transcript text between them.
+export const mergeWithNext = (timings: WordTiming[], index: number, separator = ' '): WordTiming[] => {
+  const word = timings[index];
+  const following = timings[index + 1];
+  if (!following) return timings;
+  const merged = {
+    ...word,
+    word: `${word.word}${separator}${following.word}`,
+    start: Math.min(word.start, following.start),
+    end: Math.max(word.end, following.end),
+  };
+  return [...timings.slice(0, index), merged, ...timings.slice(index + 2)];
+};
@@ -0,0 +1,328 @@
+import type { Bookmark, Speaker, WordTiming } from '../types';
+import { parseBookmarks } from './bookmarks';
+import { SENTENCE_END } from './segmentation';
+import { speakerName } from './speakers';
+
+export type TimingFormat = 'vtt' | 'srt' | 'lrc' | 'json';
+
+export const TIMING_FORMATS: { id: TimingFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  { id: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'lrc', label: 'LRC', extension: 'lrc', mimeType: 'text/plain' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+];
+
+export interface TimingDocument {
+  transcript?: string;
+  timings: WordTiming[];
+  speakers?: Speaker[];
+  bookmarks?: Bookmark[];
+}
+
+interface CueOptions {
+  maxChars: number;
+  maxDuration: number;
+  maxPause: number;
+}
+
+const DEFAULT_CUE_OPTIONS: CueOptions = { maxChars: 42, maxDuration: 6, maxPause: 0.8 };
+
+// --- Timestamp helpers ---
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor(totalMs / 60000) % 60,
+    s: Math.floor(totalMs / 1000) % 60,
+    ms: totalMs % 1000,
+  };
+};
+
+export const formatVttTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+};
+
+export const formatSrtTime = (seconds: number) => formatVttTime(seconds).replace('.', ',');
+
+export const formatLrcTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h * 60 + m)}:${pad(s)}.${pad(Math.floor(ms / 10))}`;
+};
+
+// Accepts "hh:mm:ss.mmm", "mm:ss.mmm", "mm:ss.xx" and the SRT comma variant.
+export const parseTimestamp = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  if (parts.some(isNaN)) {
+    throw new Error(`Invalid timestamp "${value}".`);
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// --- Cue grouping ---
+
+export const groupIntoCues = (timings: WordTiming[], options: Partial<CueOptions> = {}): WordTiming[][] => {
+  const { maxChars, maxDuration, maxPause } = { ...DEFAULT_CUE_OPTIONS, ...options };
+  const cues: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+  let chars = 0;
+
+  timings.forEach(timing => {
+    const previous = current[current.length - 1];
+    const wouldOverflow =
+      current.length > 0 &&
+      (chars + 1 + timing.word.length > maxChars ||
+        timing.end - current[0].start > maxDuration ||
+        timing.start - previous.end > maxPause ||
+        timing.speaker !== previous.speaker);
+    if (wouldOverflow) {
+      cues.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(timing);
+    chars += (chars ? 1 : 0) + timing.word.length;
+    if (SENTENCE_END.test(timing.word)) {
+      cues.push(current);
+      current = [];
+      chars = 0;
+    }
+  });
+  if (current.length) cues.push(current);
+  return cues;
+};
+
+const cueText = (cue: WordTiming[]) => cue.map(t => t.word).join(' ');
+
+// --- Serializers ---
+
+// WebVTT comments may not contain "-->".
+const toVttNote = (text: string) => text.replace(/-->/g, '->').replace(/\n{2,}/g, '\n').trim();
+
+// Bookmarks become NOTE blocks, which players ignore but keep the times and notes readable.
+const bookmarkNotes = (timings: WordTiming[], bookmarks: Bookmark[] = []) =>
+  bookmarks.map(bookmark => {
+    const from = timings[bookmark.start]?.start ?? 0;
+    const to = timings[bookmark.end]?.end ?? from;
+    const lines = [`Bookmark ${formatVttTime(from)} to ${formatVttTime(to)}: ${bookmark.title}`, bookmark.note].filter(Boolean);
+    return `NOTE\n${toVttNote(lines.join('\n'))}`;
+  });
+
+// Cues are never shared between speakers, so each one gets a `<v Name>` voice span.
+export const toWebVTT = (timings: WordTiming[], speakers?: Speaker[], bookmarks?: Bookmark[]): string => {
+  const blocks = groupIntoCues(timings).map((cue, index) => {
+    const words = cue
+      .map((t, i) => (i === 0 ? `<c>${escapeVtt(t.word)}</c>` : `<${formatVttTime(t.start)}><c>${escapeVtt(t.word)}</c>`))
+      .join(' ');
+    const speaker = cue[0].speaker;
+    const body = speaker ? `<v ${escapeVtt(speakerName(speakers, speaker))}>${words}</v>` : words;
+    return `${index + 1}\n${formatVttTime(cue[0].start)} --> ${formatVttTime(cue[cue.length - 1].end)}\n${body}`;
+  });
+  return ['WEBVTT', ...bookmarkNotes(timings, bookmarks), ...blocks].join('\n\n') + '\n';
+};
+
+export const toSRT = (timings: WordTiming[]): string =>
+  groupIntoCues(timings)
+    .map((cue, index) => `${index + 1}\n${formatSrtTime(cue[0].start)} --> ${formatSrtTime(cue[cue.length - 1].end)}\n${cueText(cue)}`)
+    .join('\n\n') + '\n';
+
+export const toLRC = (timings: WordTiming[]): string =>
+  groupIntoCues(timings)
+    .map(cue => {
+      const words = cue.map(t => `<${formatLrcTime(t.start)}> ${t.word}`).join(' ');
+      return `[${formatLrcTime(cue[0].start)}] ${words} <${formatLrcTime(cue[cue.length - 1].end)}>`;
+    })
+    .join('\n') + '\n';
+
+export const toJSON = (doc: TimingDocument): string =>
+  JSON.stringify({
+    version: 1,
+    transcript: doc.transcript,
+    speakers: doc.speakers?.length ? doc.speakers : undefined,
+    bookmarks: doc.bookmarks?.length ? doc.bookmarks : undefined,
+    words: doc.timings,
+  }, null, 2);
+
+export const serializeTimings = (format: TimingFormat, doc: TimingDocument): string => {
+  switch (format) {
+    case 'vtt': return toWebVTT(doc.timings, doc.speakers, doc.bookmarks);
+    case 'srt': return toSRT(doc.timings);
+    case 'lrc': return toLRC(doc.timings);
+    case 'json': return toJSON(doc);
+  }
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeVtt = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+// --- Parsers ---
+
+// Spreads a cue's words over its time span by character count (used when a cue has no per-word tags).
+const distributeCue = (text: string, start: number, end: number): WordTiming[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const totalChars = words.reduce((sum, w) => sum + w.length, 0) || 1;
+  let cursor = start;
+  return words.map(word => {
+    const duration = ((end - start) * word.length) / totalChars;
+    const timing = { word, start: cursor, end: cursor + duration };
+    cursor += duration;
+    return timing;
+  });
+};
+
+// Splits "<00:01.000>" tagged text into words with start times; ends are the next word's start.
+const parseTaggedWords = (text: string, cueStart: number, cueEnd: number): WordTiming[] => {
+  const timings: WordTiming[] = [];
+  let currentStart = cueStart;
+  const tokens = text.split(/(<\d[\d:.,]*>)/);
+  tokens.forEach(token => {
+    const tag = token.match(/^<(\d[\d:.,]*)>$/);
+    if (tag) {
+      currentStart = parseTimestamp(tag[1]);
+      return;
+    }
+    const plain = unescapeVtt(token.replace(/<[^>]*>/g, ''));
+    plain.split(/\s+/).filter(Boolean).forEach(word => {
+      timings.push({ word, start: currentStart, end: currentStart });
+    });
+  });
+  timings.forEach((timing, i) => {
+    timing.end = i + 1 < timings.length ? Math.max(timing.start, timings[i + 1].start) : Math.max(timing.start, cueEnd);
+  });
+  return timings;
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const parseCueBlocks = (content: string): Cue[] => {
+  const cues: Cue[] = [];
+  content.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n');
+    const timeLineIndex = lines.findIndex(line => line.includes('-->'));
+    if (timeLineIndex === -1) return;
+    const [from, to] = lines[timeLineIndex].split('-->');
+    cues.push({
+      start: parseTimestamp(from),
+      end: parseTimestamp(to.trim().split(/\s+/)[0]),
+      text: lines.slice(timeLineIndex + 1).join('\n'),
+    });
+  });
+  return cues;
+};
+
+// A WebVTT voice span ("<v Name>" or "<v.loud Name>") at the start of a cue.
+const VOICE_TAG = /^\s*<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+
+const cuesToDocument = (cues: Cue[]): TimingDocument => {
+  const timings: WordTiming[] = [];
+  const lines: string[] = [];
+  cues.forEach(cue => {
+    const words = /<\d[\d:.,]*>/.test(cue.text)
+      ? parseTaggedWords(cue.text, cue.start, cue.end)
+      : distributeCue(unescapeVtt(cue.text.replace(/<[^>]*>/g, '')), cue.start, cue.end);
+    const voice = cue.text.match(VOICE_TAG);
+    const speaker = voice && unescapeVtt(voice[1].trim());
+    timings.push(...(speaker ? words.map(w => ({ ...w, speaker })) : words));
+    lines.push(words.map(w => w.word).join(' '));
+  });
+  return { transcript: lines.join('\n'), timings };
+};
+
+export const parseWebVTT = (content: string): TimingDocument => {
+  if (!content.trimStart().startsWith('WEBVTT')) {
+    throw new Error('Not a WebVTT file: missing "WEBVTT" header.');
+  }
+  return cuesToDocument(parseCueBlocks(content));
+};
+
+export const parseSRT = (content: string): TimingDocument => cuesToDocument(parseCueBlocks(content));
+
+export const parseLRC = (content: string): TimingDocument => {
+  const lines = content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.match(/^\[(\d+:\d+(?:[.:]\d+)?)\](.*)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ start: parseTimestamp(match[1]), text: match[2].trim() }));
+
+  const timings: WordTiming[] = [];
+  const transcriptLines: string[] = [];
+  lines.forEach((line, i) => {
+    const nextStart = i + 1 < lines.length ? lines[i + 1].start : line.start;
+    // A trailing "<mm:ss.xx>" tag marks the line end in enhanced LRC.
+    const trailing = line.text.match(/<(\d[\d:.,]*)>\s*$/);
+    const end = trailing ? parseTimestamp(trailing[1]) : Math.max(nextStart, line.start);
+    const words = /<\d[\d:.,]*>/.test(line.text)
+      ? parseTaggedWords(line.text, line.start, end)
+      : distributeCue(line.text, line.start, end);
+    timings.push(...words);
+    transcriptLines.push(words.map(w => w.word).join(' '));
+  });
+  return { transcript: transcriptLines.join('\n'), timings };
+};
+
+export const isSpeaker = (value: unknown): value is Speaker => {
+  const speaker = value as Partial<Record<keyof Speaker, unknown>> | null;
+  return typeof speaker?.id === 'string' && typeof speaker.name === 'string' && typeof speaker.color === 'string';
+};
+
+export const parseJSON = (content: string): TimingDocument => {
+  const data = JSON.parse(content);
+  const words = Array.isArray(data) ? data : data?.words;
+  if (!Array.isArray(words)) {
+    throw new Error('JSON timings must be an array or an object with a "words" array.');
+  }
+  const timings = (words as unknown[]).map((w, i): WordTiming => {
+    const entry = w as { word?: unknown; start?: unknown; end?: unknown; speaker?: unknown } | null;
+    if (typeof entry?.word !== 'string' || typeof entry.start !== 'number' || typeof entry.end !== 'number') {
+      throw new Error(`JSON timing at index ${i} is missing "word", "start" or "end".`);
+    }
+    return { word: entry.word, start: entry.start, end: entry.end, ...(typeof entry.speaker === 'string' && entry.speaker ? { speaker: entry.speaker } : {}) };
+  });
+  const speakers = Array.isArray(data?.speakers)
+    ? (data.speakers as unknown[]).filter(isSpeaker)
+    : undefined;
+  return {
+    transcript: typeof data?.transcript === 'string' ? data.transcript : undefined,
+    timings,
+    speakers,
+    bookmarks: parseBookmarks(data?.bookmarks)?.filter(b => b.end < timings.length),
+  };
+};
+
+const isJSON = (content: string) => {
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectTimingFormat = (fileName: string, content: string): TimingFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'vtt' || content.trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'lrc') return 'lrc';
+  if (extension === 'json') return 'json';
+  // LRC lines ("[00:12.34]", "[ar:Artist]") also open with a bracket, so they are ruled out before JSON.
+  if (/^\[(\d+:\d+|[a-z]+:)/im.test(content)) return 'lrc';
+  if (/^\s*[[{]/.test(content) && isJSON(content)) return 'json';
+  return 'srt';
+};
+
+export const parseTimings = (fileName: string, content: string): TimingDocument => {
+  switch (detectTimingFormat(fileName, content)) {
+    case 'vtt': return parseWebVTT(content);
+    case 'srt': return parseSRT(content);
+    case 'lrc': return parseLRC(content);
+    case 'json': return parseJSON(content);
+  }
+};
@@ -0,0 +1,76 @@
+import type { ReconciliationIssue, TimingIssue, WordTiming } from '../types';
+import { getAlignmentCacheKey, readCachedAlignment, writeCachedAlignment } from './alignmentCache';
+import { clearChunkJob, runChunkedAlignment, type ChunkedAlignmentOptions } from './chunkedAlignment';
+import { detectSpeech, scoreTimings } from './confidence';
+import type { SpeechSegment } from './localAligner';
+import { TimingValidationError } from './errors';
+import { reconcileTimings } from './reconcile';
+import { validateTimings } from './timingValidation';
+import { estimateUsage, recordUsage } from './usage';
+
+export interface FinalizedTimings {
+  timings: WordTiming[];
+  reconciliationIssues: ReconciliationIssue[];
+  timingIssues: TimingIssue[];
+}
+
+/**
+ * Turns raw aligner (or imported) output into timings the player can trust: the raw list is
+ * sanitized, mapped onto the transcript's words, checked again as a whole, then scored.
+ */
+export const finalizeTimings = (
+  transcript: string,
+  raw: readonly unknown[],
+  duration: number,
+  speech?: SpeechSegment[] | null,
+): FinalizedTimings => {
+  const sanitized = validateTimings(raw, duration, { closeGapsUnder: 0 });
+  if (!sanitized.timings.length) {
+    throw new TimingValidationError('The aligner did not return any usable word timings.', sanitized.issues);
+  }
+  const reconciled = reconcileTimings(transcript, sanitized.timings);
+  const repaired = validateTimings(reconciled.timings, duration);
+  return {
+    timings: scoreTimings(repaired.timings, { speech, reconciliationIssues: reconciled.issues, timingIssues: repaired.issues }),
+    reconciliationIssues: reconciled.issues,
+    // Indices from the first pass refer to the raw output, not the transcript, so they are dropped.
+    timingIssues: [...sanitized.issues.map(({ wordIndex, ...issue }) => issue), ...repaired.issues],
+  };
+};
+
+export interface SynchronizedTimings extends FinalizedTimings {
+  duration: number;
+  // True when the aligner was skipped because the same audio, transcript and backend were aligned before.
+  cached: boolean;
+}
+
+/**
+ * Aligns, drops the saved job once it has fully succeeded, then finalizes. Shared by the app and the CLI.
+ * The aligner's output is cached by content, so aligning the same input again sends no requests;
+ * `refresh` skips the lookup and overwrites the entry.
+ */
+export const synchronize = async (
+  options: ChunkedAlignmentOptions,
+  jobKey: string,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<SynchronizedTimings> => {
+  const { aligner } = options;
+  const cacheKey = await getAlignmentCacheKey(options.audio, options.transcript, aligner, options.language);
+  const hit = refresh || !cacheKey ? null : await readCachedAlignment(cacheKey);
+  let aligned: { timings: WordTiming[]; duration: number };
+  if (hit) {
+    aligned = hit;
+    if (options.usage && aligner.requiresNetwork) {
+      recordUsage({
+        at: Date.now(), project: options.usage.project, alignerId: aligner.id, kind: 'align',
+        requests: 0, ...estimateUsage(hit.duration, options.transcript), cached: true,
+      });
+    }
+  } else {
+    aligned = await runChunkedAlignment(options, jobKey);
+    clearChunkJob(jobKey);
+    if (cacheKey) await writeCachedAlignment({ key: cacheKey, alignerId: aligner.id, model: aligner.model, ...aligned, createdAt: Date.now() });
+  }
+  const speech = await detectSpeech(options.audio);
+  return { ...finalizeTimings(options.transcript, aligned.timings, aligned.duration, speech), duration: aligned.duration, cached: !!hit };
+};
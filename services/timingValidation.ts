@@ -0,0 +1,93 @@
+import type { TimingIssue, TimingValidationResult, WordTiming } from '../types';
+import { MIN_WORD_DURATION } from './timingEdits';
+
+// Pauses shorter than this are absorbed into the preceding word so the highlight doesn't flicker.
+export const MAX_CLOSED_GAP = 0.3;
+
+interface ValidationOptions {
+  closeGapsUnder?: number;
+}
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+/**
+ * Checks a timing list against the audio duration and repairs what it can: malformed entries
+ * are dropped, times clamped, swapped ends fixed, words re-sorted, overlaps cut and short
+ * gaps closed. Every change is reported as an issue.
+ */
+export const validateTimings = (
+  input: readonly unknown[],
+  duration: number,
+  { closeGapsUnder = MAX_CLOSED_GAP }: ValidationOptions = {},
+): TimingValidationResult => {
+  const issues: TimingIssue[] = [];
+  const limit = Number.isFinite(duration) && duration > 0 ? duration : Infinity;
+  let timings: WordTiming[] = [];
+
+  input.forEach((item, index) => {
+    const candidate = item as Partial<WordTiming> | null;
+    if (!candidate || typeof candidate.word !== 'string' || candidate.start === undefined || candidate.end === undefined) {
+      issues.push({ code: 'malformed', severity: 'warning', message: `Entry ${index + 1} is missing "word", "start" or "end" and was dropped.` });
+      return;
+    }
+    const word = candidate.word;
+    let start = Number(candidate.start);
+    let end = Number(candidate.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      issues.push({ code: 'non-finite', severity: 'warning', word, message: `"${word}" has no usable timestamp and was dropped.` });
+      return;
+    }
+    if (end < start) {
+      issues.push({ code: 'end-before-start', severity: 'warning', word, message: `"${word}" ended before it started (${formatTime(start)} – ${formatTime(end)}); the times were swapped.` });
+      [start, end] = [end, start];
+    }
+    if (start < 0) {
+      issues.push({ code: 'negative', severity: 'warning', word, message: `"${word}" started at ${formatTime(start)}; clamped to 0.` });
+      start = 0;
+      end = Math.max(end, 0);
+    }
+    if (end > limit) {
+      issues.push({ code: 'beyond-duration', severity: 'warning', word, message: `"${word}" ends at ${formatTime(end)}, after the audio ends (${formatTime(limit)}); clamped.` });
+      end = limit;
+      start = Math.min(start, Math.max(0, limit - MIN_WORD_DURATION));
+    }
+    timings.push({ ...candidate, word, start, end } as WordTiming);
+  });
+
+  const outOfOrder = timings.filter((t, i) => i > 0 && t.start < timings[i - 1].start).length;
+  if (outOfOrder > 0) {
+    timings = [...timings].sort((a, b) => a.start - b.start);
+    issues.push({ code: 'out-of-order', severity: 'warning', message: `${outOfOrder} ${outOfOrder === 1 ? 'word was' : 'words were'} out of chronological order and were re-sorted.` });
+  }
+
+  let closedGaps = 0;
+  timings.forEach((timing, index) => {
+    const previous = timings[index - 1];
+    if (previous && timing.start < previous.end) {
+      const cut = Math.max(previous.start + MIN_WORD_DURATION, timing.start);
+      issues.push({ code: 'overlap', severity: 'info', word: timing.word, wordIndex: index, message: `"${previous.word}" and "${timing.word}" overlapped by ${formatTime(previous.end - timing.start)}; the boundary was moved to ${formatTime(cut)}.` });
+      previous.end = cut;
+      timing.start = Math.max(timing.start, cut);
+      timing.end = Math.max(timing.end, timing.start);
+    } else if (previous && timing.start - previous.end < closeGapsUnder) {
+      previous.end = timing.start;
+      closedGaps++;
+    }
+  });
+
+  timings.forEach((timing, index) => {
+    if (timing.end - timing.start >= MIN_WORD_DURATION) return;
+    const next = timings[index + 1];
+    const room = (next ? next.start : limit) - timing.start;
+    if (room >= MIN_WORD_DURATION) {
+      timing.end = timing.start + MIN_WORD_DURATION;
+    } else {
+      issues.push({ code: 'too-short', severity: 'warning', word: timing.word, wordIndex: index, message: `"${timing.word}" lasts only ${formatTime(timing.end - timing.start)} and may not be highlighted.` });
+    }
+  });
+
+  if (closedGaps > 0) {
+    issues.push({ code: 'gap-closed', severity: 'info', message: `Closed ${closedGaps} short ${closedGaps === 1 ? 'gap' : 'gaps'} between words.` });
+  }
+  return { timings, issues };
+};
@@ -0,0 +1,104 @@
+import type { Aligner, WordTiming } from '../types';
+import { decodeMonoAudio, getAudioDuration } from './audioUtils';
+import { CHUNK_SECONDS, LONG_AUDIO_SECONDS } from './chunkedAlignment';
+import { AlignmentError } from './errors';
+import { estimateUsage, meterRequest, type UsageContext } from './usage';
+import { validateTimings } from './timingValidation';
+import { encodeWav } from './wav';
+
+const WINDOW_SAMPLE_RATE = 16000;
+// Window cuts move to the quietest moment within this distance, so no word is cut in half.
+const CUT_SEARCH_SECONDS = 10;
+const CUT_FRAME_SECONDS = 0.02;
+
+export interface TranscriptionOptions {
+  audio: File;
+  mimeType: string;
+  language?: string;
+  aligner: Aligner;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+  usage?: UsageContext;
+}
+
+export interface TranscriptionDraft {
+  text: string;
+  timings: WordTiming[];
+}
+
+export const canTranscribe = (aligner: Aligner) => !!aligner.transcribe;
+
+// Time (seconds) of the lowest-energy frame within CUT_SEARCH_SECONDS of `around`.
+const findQuietPoint = (samples: Float32Array, sampleRate: number, around: number) => {
+  const frame = Math.round(CUT_FRAME_SECONDS * sampleRate);
+  const from = Math.max(0, Math.floor((around - CUT_SEARCH_SECONDS) * sampleRate));
+  const to = Math.min(samples.length - frame, Math.floor((around + CUT_SEARCH_SECONDS) * sampleRate));
+  let best = Math.round(around * sampleRate);
+  let bestEnergy = Infinity;
+  for (let start = from; start <= to; start += frame) {
+    let energy = 0;
+    for (let i = start; i < start + frame; i++) energy += samples[i] * samples[i];
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = start + Math.floor(frame / 2);
+    }
+  }
+  return best / sampleRate;
+};
+
+/**
+ * Transcribes audio that has no script, returning a draft text and its word timings. Long
+ * files are cut into windows at quiet moments and transcribed one after another.
+ */
+export const transcribeAudio = async ({
+  audio, mimeType, language, aligner, onProgress, signal, usage,
+}: TranscriptionOptions): Promise<TranscriptionDraft> => {
+  if (!aligner.transcribe) {
+    throw new AlignmentError(`${aligner.label} cannot transcribe audio. Paste a transcript, or choose a backend that can.`);
+  }
+  // MediaRecorder WebM (what the recorder produces) reports an Infinity duration in its metadata,
+  // so anything that isn't a short, known length is decoded and measured instead.
+  const metadataDuration = await getAudioDuration(audio).catch(() => NaN);
+  const decoded = Number.isFinite(metadataDuration) && metadataDuration <= LONG_AUDIO_SECONDS
+    ? null
+    : await decodeMonoAudio(audio, WINDOW_SAMPLE_RATE);
+  const duration = decoded ? decoded.duration : metadataDuration;
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new AlignmentError('The length of this audio could not be determined. Try converting it to MP3 or WAV.');
+  }
+
+  let windows: { start: number; end: number; audio: Blob; mimeType: string }[];
+  if (duration <= LONG_AUDIO_SECONDS) {
+    windows = [{ start: 0, end: duration, audio, mimeType }];
+  } else {
+    const samples = decoded!.samples;
+    const cuts = [0];
+    while (duration - cuts[cuts.length - 1] > CHUNK_SECONDS + CUT_SEARCH_SECONDS) {
+      cuts.push(findQuietPoint(samples, WINDOW_SAMPLE_RATE, cuts[cuts.length - 1] + CHUNK_SECONDS));
+    }
+    cuts.push(duration);
+    windows = cuts.slice(0, -1).map((start, i) => ({
+      start,
+      end: cuts[i + 1],
+      audio: encodeWav(samples.subarray(Math.floor(start * WINDOW_SAMPLE_RATE), Math.ceil(cuts[i + 1] * WINDOW_SAMPLE_RATE)), WINDOW_SAMPLE_RATE),
+      mimeType: 'audio/wav',
+    }));
+  }
+
+  const timings: WordTiming[] = [];
+  onProgress?.(0, windows.length);
+  for (const [index, window] of windows.entries()) {
+    signal?.throwIfAborted();
+    meterRequest(usage, aligner, 'transcribe', estimateUsage(window.end - window.start));
+    const raw = await aligner.transcribe({ audio: window.audio, mimeType: window.mimeType, language });
+    const { timings: words } = validateTimings(raw, window.end - window.start, { closeGapsUnder: 0 });
+    words
+      .filter(word => word.word.trim())
+      .forEach(word => timings.push({ ...word, word: word.word.trim(), start: word.start + window.start, end: word.end + window.start }));
+    onProgress?.(index + 1, windows.length);
+  }
+  if (!timings.length) {
+    throw new AlignmentError('No speech could be transcribed from this audio.');
+  }
+  return { text: timings.map(t => t.word).join(' '), timings };
+};
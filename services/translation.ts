@@ -0,0 +1,32 @@
+import type { TranslationAlignmentRequest } from '../types';
+import { splitTextSentences } from './segmentation';
+
+/**
+ * Pairs translation sentences with source sentences without any model: one-to-one when the
+ * counts match, otherwise each translation sentence goes to the source sentence at the same
+ * relative position by text length.
+ */
+export const alignTranslationByLength = ({ sources, translation }: TranslationAlignmentRequest): string[] => {
+  const targets = splitTextSentences(translation);
+  if (targets.length === sources.length) return targets;
+  if (sources.length === 0) return [];
+
+  const parts: string[][] = sources.map(() => []);
+  const sourceTotal = sources.reduce((sum, s) => sum + s.length, 0) || 1;
+  const targetTotal = targets.reduce((sum, t) => sum + t.length, 0) || 1;
+  const sourceEnds: number[] = [];
+  sources.reduce((sum, s) => {
+    sourceEnds.push((sum + s.length) / sourceTotal);
+    return sum + s.length;
+  }, 0);
+
+  let consumed = 0;
+  let sourceIndex = 0;
+  targets.forEach(target => {
+    const middle = (consumed + target.length / 2) / targetTotal;
+    consumed += target.length;
+    while (sourceIndex < sources.length - 1 && sourceEnds[sourceIndex] < middle) sourceIndex++;
+    parts[sourceIndex].push(target);
+  });
+  return parts.map(part => part.join(' '));
+};
@@ -0,0 +1,146 @@
+import type { Aligner, UsageKind, UsageLimits, UsageRecord } from '../types';
+import type { ChunkJobStore } from './chunkedAlignment';
+import { UsageLimitError } from './errors';
+
+const LOG_KEY = 'alignment-usage';
+const LIMITS_KEY = 'usage-limits';
+// Oldest records are dropped past this, which keeps the log a few hundred KB at most.
+const MAX_RECORDS = 5000;
+export const LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Rough Gemini accounting: audio is billed at 32 tokens a second, text at about 4 characters a
+// token, and each word in the JSON answer costs around 15 tokens. Good enough to spot runaway jobs.
+const AUDIO_TOKENS_PER_SECOND = 32;
+const CHARS_PER_TOKEN = 4;
+const OUTPUT_TOKENS_PER_WORD = 15;
+const PROMPT_TOKENS = 250;
+// Transcription has no transcript to size the answer by, so it assumes typical speech.
+const SPOKEN_WORDS_PER_SECOND = 2.5;
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  requestsPerDay: 200,
+  audioMinutesPerDay: 600,
+  tokensPerDay: null,
+};
+
+// Who the requests are billed to in the log, and the caps they must stay under.
+export interface UsageContext {
+  project: string;
+  limits: UsageLimits;
+}
+
+export interface UsageEstimate {
+  audioSeconds: number;
+  estimatedTokens: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  audioSeconds: number;
+  estimatedTokens: number;
+  cacheHits: number;
+}
+
+export interface ProjectUsage extends UsageTotals {
+  project: string;
+  lastUsed: number;
+}
+
+// Like chunk progress, the log lives in localStorage in the browser and in a file for the CLI.
+let usageStore: ChunkJobStore | null = typeof localStorage !== 'undefined' ? localStorage : null;
+
+export const setUsageStore = (store: ChunkJobStore | null) => {
+  usageStore = store;
+};
+
+export const loadUsageLog = (): UsageRecord[] => {
+  try {
+    const stored = usageStore?.getItem(LOG_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveUsageLog = (records: UsageRecord[]) => {
+  try {
+    usageStore?.setItem(LOG_KEY, JSON.stringify(records.slice(-MAX_RECORDS)));
+  } catch (err) {
+    console.warn("Could not persist the usage log:", err);
+  }
+};
+
+export const clearUsageLog = () => usageStore?.removeItem(LOG_KEY);
+
+export const loadUsageLimits = (): UsageLimits => {
+  try {
+    const stored = usageStore?.getItem(LIMITS_KEY);
+    return { ...DEFAULT_USAGE_LIMITS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_USAGE_LIMITS;
+  }
+};
+
+export const saveUsageLimits = (limits: UsageLimits) => {
+  try {
+    usageStore?.setItem(LIMITS_KEY, JSON.stringify(limits));
+  } catch (err) {
+    console.warn("Could not persist usage limits:", err);
+  }
+};
+
+export const estimateUsage = (audioSeconds: number, transcript = ''): UsageEstimate => {
+  const words = transcript.split(/\s+/).filter(Boolean).length || audioSeconds * SPOKEN_WORDS_PER_SECOND;
+  const input = audioSeconds * AUDIO_TOKENS_PER_SECOND + PROMPT_TOKENS + transcript.length / CHARS_PER_TOKEN;
+  return { audioSeconds, estimatedTokens: Math.round(input + words * OUTPUT_TOKENS_PER_WORD) };
+};
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce((totals, record) => ({
+    requests: totals.requests + record.requests,
+    audioSeconds: totals.audioSeconds + (record.cached ? 0 : record.audioSeconds),
+    estimatedTokens: totals.estimatedTokens + (record.cached ? 0 : record.estimatedTokens),
+    cacheHits: totals.cacheHits + (record.cached ? 1 : 0),
+  }), { requests: 0, audioSeconds: 0, estimatedTokens: 0, cacheHits: 0 });
+
+// Totals per project, most recently used first.
+export const summarizeUsage = (records: UsageRecord[]): ProjectUsage[] => {
+  const byProject = new Map<string, UsageRecord[]>();
+  records.forEach(record => byProject.set(record.project, [...(byProject.get(record.project) ?? []), record]));
+  return [...byProject.entries()]
+    .map(([project, projectRecords]) => ({
+      project,
+      lastUsed: Math.max(...projectRecords.map(r => r.at)),
+      ...sumUsage(projectRecords),
+    }))
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+};
+
+export const usageInWindow = (records: UsageRecord[], now = Date.now()) =>
+  sumUsage(records.filter(record => record.at > now - LIMIT_WINDOW_MS));
+
+// Throws when sending one more request of this size would go over any of the limits.
+export const assertWithinLimits = (limits: UsageLimits, records: UsageRecord[], next: UsageEstimate) => {
+  const used = usageInWindow(records);
+  if (limits.requestsPerDay !== null && used.requests + 1 > limits.requestsPerDay) {
+    throw new UsageLimitError(`${limits.requestsPerDay} requests`);
+  }
+  if (limits.audioMinutesPerDay !== null && (used.audioSeconds + next.audioSeconds) / 60 > limits.audioMinutesPerDay) {
+    throw new UsageLimitError(`${limits.audioMinutesPerDay} minutes of audio`);
+  }
+  if (limits.tokensPerDay !== null && used.estimatedTokens + next.estimatedTokens > limits.tokensPerDay) {
+    throw new UsageLimitError(`${limits.tokensPerDay.toLocaleString()} estimated tokens`);
+  }
+};
+
+export const recordUsage = (record: UsageRecord) => saveUsageLog([...loadUsageLog(), record]);
+
+/**
+ * Checks the limits and logs one request before it is sent, so failed and retried requests
+ * count too. Backends that run locally cost nothing and are not metered.
+ */
+export const meterRequest = (usage: UsageContext | undefined, aligner: Aligner, kind: UsageKind, estimate: UsageEstimate) => {
+  if (!usage || !aligner.requiresNetwork) return;
+  assertWithinLimits(usage.limits, loadUsageLog(), estimate);
+  recordUsage({ at: Date.now(), project: usage.project, alignerId: aligner.id, kind, requests: 1, ...estimate });
+};
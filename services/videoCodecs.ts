@@ -0,0 +1,106 @@
+import type { ExportSettings, VideoContainer } from '../types';
+
+export const CONTAINERS: { id: VideoContainer; label: string; extension: string; mimeType: string }[] = [
+  { id: 'webm', label: 'WebM (VP9/VP8 + Opus)', extension: 'webm', mimeType: 'video/webm' },
+  { id: 'mp4', label: 'MP4 (H.264 + AAC)', extension: 'mp4', mimeType: 'video/mp4' },
+];
+
+export const getContainer = (id: VideoContainer) => CONTAINERS.find(c => c.id === id)!;
+
+interface CodecCandidate<M> {
+  encoder: string;
+  muxer: M;
+}
+
+const VIDEO_CANDIDATES = {
+  webm: [
+    { encoder: 'vp09.00.10.08', muxer: 'V_VP9' },
+    { encoder: 'vp8', muxer: 'V_VP8' },
+  ],
+  // High, Main and Baseline profiles at level 5.1, which covers every resolution preset.
+  mp4: [
+    { encoder: 'avc1.640033', muxer: 'avc' },
+    { encoder: 'avc1.4d0033', muxer: 'avc' },
+    { encoder: 'avc1.420033', muxer: 'avc' },
+  ],
+} satisfies Record<VideoContainer, CodecCandidate<string>[]>;
+
+// AAC first for MP4; Opus-in-MP4 is the fallback for browsers without an AAC encoder.
+const AUDIO_CANDIDATES = {
+  webm: [{ encoder: 'opus', muxer: 'A_OPUS' }],
+  mp4: [
+    { encoder: 'mp4a.40.2', muxer: 'aac' },
+    { encoder: 'opus', muxer: 'opus' },
+  ],
+} satisfies Record<VideoContainer, CodecCandidate<string>[]>;
+
+const RECORDER_MIME_TYPES: Record<VideoContainer, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+};
+
+export interface OfflineCodecs {
+  videoConfig: VideoEncoderConfig;
+  videoMuxerCodec: string;
+  audioConfig: AudioEncoderConfig;
+  audioMuxerCodec: string;
+}
+
+export const isWebCodecsAvailable = () =>
+  typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+export const findOfflineCodecs = async (
+  container: VideoContainer,
+  settings: ExportSettings,
+  audio: { sampleRate: number; numberOfChannels: number },
+): Promise<OfflineCodecs | null> => {
+  if (!isWebCodecsAvailable()) return null;
+
+  let video: { config: VideoEncoderConfig; muxer: string } | null = null;
+  for (const candidate of VIDEO_CANDIDATES[container]) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.encoder,
+      width: settings.width,
+      height: settings.height,
+      bitrate: settings.videoBitrate,
+      framerate: settings.fps,
+      ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {}),
+    };
+    if ((await VideoEncoder.isConfigSupported(config).catch(() => ({ supported: false }))).supported) {
+      video = { config, muxer: candidate.muxer };
+      break;
+    }
+  }
+  if (!video) return null;
+
+  for (const candidate of AUDIO_CANDIDATES[container]) {
+    const config: AudioEncoderConfig = {
+      codec: candidate.encoder,
+      sampleRate: audio.sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+      bitrate: settings.audioBitrate,
+    };
+    if ((await AudioEncoder.isConfigSupported(config).catch(() => ({ supported: false }))).supported) {
+      return { videoConfig: video.config, videoMuxerCodec: video.muxer, audioConfig: config, audioMuxerCodec: candidate.muxer };
+    }
+  }
+  return null;
+};
+
+export const findRecorderMimeType = (container: VideoContainer): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDER_MIME_TYPES[container].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export interface ExportSupport {
+  offline: boolean;
+  realtime: boolean;
+}
+
+export const detectExportSupport = async (settings: ExportSettings): Promise<Record<VideoContainer, ExportSupport>> => {
+  const check = async (container: VideoContainer): Promise<ExportSupport> => ({
+    offline: !!(await findOfflineCodecs(container, settings, { sampleRate: 48000, numberOfChannels: 2 })),
+    realtime: !!findRecorderMimeType(container),
+  });
+  return { webm: await check('webm'), mp4: await check('mp4') };
+};
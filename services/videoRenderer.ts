@@ -0,0 +1,359 @@
+import type { ExportSettings, Speaker, TextDirection, Translation, ViewElement, WordTiming } from '../types';
+import { resolveLevels, visualOrder } from './bidi';
+import { buildSegments, findRangeIndex, getActiveSegment, splitElements } from './segmentation';
+import { createTimeline } from './timeline';
+import { resolveDirection } from './language';
+
+interface WordLayout {
+  word: string;
+  originalIndex: number;
+  // Distance from the line's left edge to the word's left edge, in display order.
+  x: number;
+  width: number;
+  // Width of the whitespace before the word in reading order (0 at the start of a line).
+  gapBefore: number;
+  // Bidi embedding level; odd levels are drawn right-to-left.
+  level: number;
+}
+
+interface LineLayout {
+  words: WordLayout[];
+  width: number;
+}
+
+interface Block {
+  lines: LineLayout[];
+  // Same as `start`/`end`, so blocks can be looked up with `findRangeIndex`.
+  start: number;
+  end: number;
+}
+
+export interface VideoRenderer {
+  renderFrame: (time: number, deltaSeconds: number) => void;
+}
+
+// Subtitle text size relative to the main font, and the most lines a subtitle may wrap to.
+const SUBTITLE_SCALE = 0.6;
+const SUBTITLE_MAX_LINES = 3;
+// Speaker name badge size relative to the main font.
+const SPEAKER_TAG_SCALE = 0.45;
+
+// Fraction of the remaining scroll distance covered per 1/60s, as in the original export.
+const SCROLL_LERP = 0.08;
+
+export const fontString = (settings: ExportSettings) =>
+  `${settings.fontWeight} ${settings.fontSize}px '${settings.fontFamily}', serif`;
+
+export const ensureFontLoaded = async (settings: ExportSettings) => {
+  try {
+    await document.fonts.load(fontString(settings));
+  } catch (err) {
+    console.warn("Could not load export font:", err);
+  }
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the background image.'));
+    image.src = src;
+  });
+
+// Positions a line's words in display order. Words that were neighbours in reading order keep
+// the whitespace between them; words brought together by reordering get a single space.
+const placeLine = (line: LineLayout, spaceWidth: number) => {
+  const order = visualOrder(line.words.map(word => word.level));
+  let x = 0;
+  order.forEach((index, position) => {
+    const previous = order[position - 1];
+    if (position > 0) {
+      x += Math.abs(previous - index) === 1 ? line.words[Math.max(previous, index)].gapBefore : spaceWidth;
+    }
+    line.words[index].x = x;
+    x += line.words[index].width;
+  });
+  line.width = x;
+};
+
+// Wraps words in reading order into lines no wider than `maxWidth`, honouring explicit line breaks.
+const layoutLines = (
+  ctx: CanvasRenderingContext2D,
+  elements: ViewElement[],
+  maxWidth: number,
+  levels: ArrayLike<number>,
+): LineLayout[] => {
+  const lines: LineLayout[] = [{ words: [], width: 0 }];
+  let cursor = 0;
+  let gap = 0;
+  const newLine = () => {
+    lines.push({ words: [], width: 0 });
+    cursor = 0;
+    gap = 0;
+  };
+
+  elements.forEach(element => {
+    if (element.type === 'word') {
+      const width = ctx.measureText(element.word).width;
+      if (cursor > 0 && cursor + gap + width > maxWidth) newLine();
+      const gapBefore = cursor > 0 ? gap : 0;
+      lines[lines.length - 1].words.push({
+        word: element.word,
+        originalIndex: element.originalIndex,
+        x: 0,
+        width,
+        gapBefore,
+        level: levels[element.originalIndex] ?? 0,
+      });
+      cursor += gapBefore + width;
+      gap = 0;
+    } else {
+      for (const char of element.content) {
+        if (char === '\n') newLine();
+        else if (cursor > 0) gap += ctx.measureText(char).width;
+      }
+    }
+  });
+  const filled = lines.filter(line => line.words.length > 0);
+  const spaceWidth = ctx.measureText(' ').width;
+  filled.forEach(line => placeLine(line, spaceWidth));
+  return filled;
+};
+
+const toBlock = (lines: LineLayout[]): Block => ({
+  lines,
+  start: lines[0]?.words[0]?.originalIndex ?? 0,
+  end: lines[lines.length - 1]?.words.slice(-1)[0]?.originalIndex ?? 0,
+});
+
+// Greedy word wrap for subtitle text, which has no per-word highlighting.
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCoverImage = (ctx: CanvasRenderingContext2D, image: CanvasImageSource & { width: number; height: number }) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.max(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+/**
+ * Draws the synced transcript onto a canvas for a given point in time. The live preview
+ * and the video export both use this, so what you see is what gets exported.
+ */
+export const createVideoRenderer = (
+  canvas: HTMLCanvasElement,
+  viewElements: ViewElement[],
+  wordTimings: WordTiming[],
+  settings: ExportSettings,
+  backgroundImage?: HTMLImageElement | null,
+  direction: TextDirection = 'rtl',
+  translation?: Translation | null,
+  speakers?: Speaker[] | null,
+): VideoRenderer => {
+  canvas.width = settings.width;
+  canvas.height = settings.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D rendering is not supported in this browser.');
+  }
+
+  const font = fontString(settings);
+  const lineHeight = settings.fontSize * settings.lineHeight;
+  const maxWidth = canvas.width - settings.padding * 2;
+  ctx.font = font;
+
+  const words = viewElements.flatMap(el => (el.type === 'word' ? [el] : []));
+  const levels = new Int8Array(wordTimings.length);
+  resolveLevels(words.map(w => w.word), direction).forEach((level, i) => { levels[words[i].originalIndex] = level; });
+
+  const blocks: Block[] = settings.layoutMode === 'page'
+    ? [toBlock(layoutLines(ctx, viewElements, maxWidth, levels))]
+    : settings.layoutMode === 'line'
+      ? layoutLines(ctx, viewElements, maxWidth, levels).map(line => toBlock([line]))
+      : splitElements(viewElements, settings.layoutMode).map(group => toBlock(layoutLines(ctx, group, maxWidth, levels)));
+  const segments = buildSegments(viewElements);
+  const timeline = createTimeline(wordTimings);
+  // Line of the page layout each word is on, for scrolling without scanning every line.
+  const pageLineOfWord = new Int32Array(wordTimings.length).fill(-1);
+  if (settings.layoutMode === 'page') {
+    blocks[0]?.lines.forEach((line, lineIndex) => line.words.forEach(w => { pageLineOfWord[w.originalIndex] = lineIndex; }));
+  }
+
+  // Burned-in translation subtitles get a band at the bottom that the transcript stays clear of.
+  const subtitles = settings.showTranslation && translation ? translation.segments : null;
+  const subtitleFont = `${settings.fontWeight} ${Math.round(settings.fontSize * SUBTITLE_SCALE)}px '${settings.fontFamily}', sans-serif`;
+  const subtitleLineHeight = settings.fontSize * SUBTITLE_SCALE * 1.4;
+  const subtitleDirection = translation ? resolveDirection('auto', translation.language) : 'ltr';
+  const subtitleLines = new Map<number, string[]>();
+  const textHeight = canvas.height - (subtitles ? subtitleLineHeight * SUBTITLE_MAX_LINES + settings.padding : 0);
+
+  const drawSubtitle = (sentenceIndex: number) => {
+    const text = subtitles?.[sentenceIndex];
+    if (!text) return;
+    ctx.font = subtitleFont;
+    ctx.direction = subtitleDirection;
+    ctx.textAlign = 'center';
+    if (!subtitleLines.has(sentenceIndex)) {
+      subtitleLines.set(sentenceIndex, wrapText(ctx, text, maxWidth).slice(0, SUBTITLE_MAX_LINES));
+    }
+    const lines = subtitleLines.get(sentenceIndex)!;
+    const bandHeight = lines.length * subtitleLineHeight + settings.padding / 2;
+    const bandTop = canvas.height - bandHeight - settings.padding / 2;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, bandTop, canvas.width, bandHeight);
+    ctx.fillStyle = '#ffffff';
+    lines.forEach((line, i) => {
+      ctx.fillText(line, canvas.width / 2, bandTop + settings.padding / 4 + (i + 0.75) * subtitleLineHeight);
+    });
+  };
+
+  // Words take their speaker's colour, and the current speaker's name sits in a badge in the top corner.
+  const speakerMap = settings.showSpeakers && speakers?.length ? new Map(speakers.map(s => [s.id, s])) : null;
+  const speakerFont = `600 ${Math.round(settings.fontSize * SPEAKER_TAG_SCALE)}px '${settings.fontFamily}', sans-serif`;
+  const speakerTagHeight = settings.fontSize * SPEAKER_TAG_SCALE * 1.6;
+
+  const drawSpeakerTag = (speaker: Speaker) => {
+    ctx.font = speakerFont;
+    ctx.direction = direction;
+    ctx.textAlign = 'left';
+    const width = ctx.measureText(speaker.name).width + speakerTagHeight;
+    const left = direction === 'rtl' ? canvas.width - settings.padding / 2 - width : settings.padding / 2;
+    const top = settings.padding / 4;
+    ctx.fillStyle = speaker.color;
+    ctx.beginPath();
+    ctx.roundRect(left, top, width, speakerTagHeight, speakerTagHeight / 2);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(speaker.name, left + speakerTagHeight / 2, top + speakerTagHeight * 0.7);
+  };
+
+  const pageHeight = blocks[0] ? blocks[0].lines.length * lineHeight + settings.padding * 2 : 0;
+  let currentScrollY = 0;
+
+  const drawWord = (layout: WordLayout, left: number, baseline: number, time: number, activeIndex: number, lastStarted: number) => {
+    const timing = wordTimings[layout.originalIndex];
+    const isActive = layout.originalIndex === activeIndex;
+    const isUnread = settings.highlightMode === 'progress' && layout.originalIndex > lastStarted;
+    const isRtl = layout.level % 2 === 1;
+    const top = baseline - settings.fontSize;
+
+    if (isActive && settings.highlightStyle === 'box') {
+      ctx.fillStyle = settings.highlightColor;
+      ctx.globalAlpha = 0.6;
+      ctx.fillRect(left - 5, top - 5, layout.width + 10, lineHeight);
+      ctx.globalAlpha = 1;
+    }
+    if (isActive && settings.highlightStyle === 'underline') {
+      ctx.fillStyle = settings.highlightColor;
+      ctx.fillRect(left, baseline + settings.fontSize * 0.25, layout.width, Math.max(3, settings.fontSize * 0.08));
+    }
+
+    const speaker = timing?.speaker ? speakerMap?.get(timing.speaker) : undefined;
+    ctx.fillStyle = isActive
+      ? (settings.highlightStyle === 'color' ? settings.highlightColor : settings.activeTextColor)
+      : speaker?.color ?? settings.textColor;
+    ctx.direction = isRtl ? 'rtl' : 'ltr';
+    if (isUnread) ctx.globalAlpha = 0.4;
+    ctx.fillText(layout.word, left, baseline);
+    ctx.globalAlpha = 1;
+
+    if (settings.highlightStyle === 'karaoke' && timing && time >= timing.start) {
+      // Sweep the fill in the word's reading direction over its duration.
+      const progress = Math.min(1, (time - timing.start) / Math.max(0.001, timing.end - timing.start));
+      const swept = layout.width * progress;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(isRtl ? left + layout.width - swept : left, top - 5, swept, lineHeight);
+      ctx.clip();
+      ctx.fillStyle = settings.highlightColor;
+      ctx.fillText(layout.word, left, baseline);
+      ctx.restore();
+    }
+  };
+
+  const renderFrame = (time: number, deltaSeconds: number) => {
+    const activeIndex = timeline.activeWordAt(time);
+    const lastStarted = timeline.lastStartedAt(time);
+
+    ctx.fillStyle = settings.backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (backgroundImage) drawCoverImage(ctx, backgroundImage);
+
+    ctx.save();
+    ctx.textAlign = 'left';
+    ctx.font = font;
+
+    const activeSegment = getActiveSegment(segments, settings.highlightMode, Math.max(activeIndex, lastStarted));
+
+    let block: Block | undefined;
+    let top: number;
+    if (settings.layoutMode === 'page') {
+      block = blocks[0];
+      if (pageHeight > textHeight && block) {
+        const activeLine = pageLineOfWord[Math.max(activeIndex, lastStarted)] ?? -1;
+        const activeY = settings.padding + settings.fontSize + Math.max(0, activeLine) * lineHeight;
+        const targetScrollY = Math.max(0, Math.min(activeY - textHeight / 2, pageHeight - textHeight));
+        const factor = 1 - Math.pow(1 - SCROLL_LERP, deltaSeconds * 60);
+        currentScrollY += (targetScrollY - currentScrollY) * factor;
+        if (Math.abs(targetScrollY - currentScrollY) < 0.5) currentScrollY = targetScrollY;
+      }
+      top = settings.padding - currentScrollY;
+    } else {
+      const reference = Math.max(0, activeIndex, lastStarted);
+      block = blocks[findRangeIndex(blocks, reference)] ?? blocks[0];
+      top = block ? (textHeight - block.lines.length * lineHeight) / 2 : 0;
+    }
+
+    // Only lay out the lines that can be on screen.
+    const lines = block?.lines ?? [];
+    const firstVisible = Math.max(0, Math.floor((-top - settings.fontSize) / lineHeight) - 1);
+    const lastVisible = Math.min(lines.length - 1, Math.ceil((textHeight - top) / lineHeight) + 1);
+    for (let lineIndex = firstVisible; lineIndex <= lastVisible; lineIndex++) {
+      const line = lines[lineIndex];
+      const baseline = top + settings.fontSize + lineIndex * lineHeight;
+      const lineLeft = settings.layoutMode !== 'page'
+        ? (canvas.width - line.width) / 2
+        : direction === 'rtl' ? canvas.width - settings.padding - line.width : settings.padding;
+      if (activeSegment) {
+        // One band behind the part of this line that belongs to the active segment.
+        const inSegment = line.words.filter(w => w.originalIndex >= activeSegment.start && w.originalIndex <= activeSegment.end);
+        if (inSegment.length > 0) {
+          const from = Math.min(...inSegment.map(w => w.x));
+          const to = Math.max(...inSegment.map(w => w.x + w.width));
+          ctx.fillStyle = settings.highlightColor;
+          ctx.globalAlpha = 0.25;
+          ctx.fillRect(lineLeft + from - 5, baseline - settings.fontSize - 5, to - from + 10, lineHeight);
+          ctx.globalAlpha = 1;
+        }
+      }
+      line.words.forEach(word => drawWord(word, lineLeft + word.x, baseline, time, activeIndex, lastStarted));
+    }
+
+    const speakerId = lastStarted >= 0 ? wordTimings[Math.max(activeIndex, lastStarted)]?.speaker : undefined;
+    const currentSpeaker = speakerId ? speakerMap?.get(speakerId) : undefined;
+    if (currentSpeaker) drawSpeakerTag(currentSpeaker);
+
+    if (subtitles && lastStarted >= 0) {
+      drawSubtitle(findRangeIndex(segments.sentence, Math.max(activeIndex, lastStarted)));
+    }
+
+    ctx.restore();
+  };
+
+  return { renderFrame };
+};
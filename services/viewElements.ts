@@ -0,0 +1,29 @@
+import type { ViewElement, WordTiming } from '../types';
+
+export const buildViewElements = (text: string, timings: WordTiming[]): ViewElement[] => {
+  const viewElements: ViewElement[] = [];
+  let textCursor = 0;
+  timings.forEach((timing, index) => {
+    const wordStartIndex = text.indexOf(timing.word, textCursor);
+
+    if (wordStartIndex === -1) {
+      console.warn(`Could not find word "${timing.word}" in transcript starting from index ${textCursor}. Appending word without preceding whitespace.`);
+      viewElements.push({ type: 'word', ...timing, originalIndex: index });
+      return;
+    }
+
+    const whitespaceContent = text.substring(textCursor, wordStartIndex);
+    if (whitespaceContent) {
+      viewElements.push({ type: 'whitespace', content: whitespaceContent });
+    }
+
+    viewElements.push({ type: 'word', ...timing, originalIndex: index });
+    textCursor = wordStartIndex + timing.word.length;
+  });
+
+  const remainingWhitespace = text.substring(textCursor);
+  if (remainingWhitespace) {
+    viewElements.push({ type: 'whitespace', content: remainingWhitespace });
+  }
+  return viewElements;
+};
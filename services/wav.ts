@@ -0,0 +1,102 @@
+
+// Encodes mono float samples as a 16-bit PCM WAV file.
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Reads a PCM or float WAV file into mono samples, linearly resampled to `sampleRate` when
+ * one is given. Used where Web Audio is not available (the CLI).
+ */
+export const decodeWav = (data: ArrayBuffer, sampleRate?: number): { samples: Float32Array; sampleRate: number } => {
+  const view = new DataView(data);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(data, offset, length));
+  if (data.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let rate = 0;
+  let bits = 0;
+  let dataOffset = -1;
+  let dataSize = 0;
+  for (let offset = 12; offset + 8 <= data.byteLength; ) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      format = view.getUint16(offset + 8, true);
+      channels = view.getUint16(offset + 10, true);
+      rate = view.getUint32(offset + 12, true);
+      bits = view.getUint16(offset + 22, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of the sub-format GUID.
+      if (format === 0xfffe && size >= 26) format = view.getUint16(offset + 32, true);
+    } else if (id === 'data') {
+      dataOffset = offset + 8;
+      dataSize = Math.min(size, data.byteLength - dataOffset);
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  if (dataOffset < 0 || !channels || !rate || !(format === 1 || (format === 3 && bits === 32))) {
+    throw new Error('Unsupported WAV encoding.');
+  }
+
+  const bytes = bits / 8;
+  const read = (offset: number): number => {
+    if (format === 3) return view.getFloat32(offset, true);
+    switch (bits) {
+      case 8: return (view.getUint8(offset) - 128) / 128;
+      case 16: return view.getInt16(offset, true) / 0x8000;
+      case 24: return (((view.getUint8(offset + 2) << 24) | (view.getUint8(offset + 1) << 16) | (view.getUint8(offset) << 8)) >> 8) / 0x800000;
+      case 32: return view.getInt32(offset, true) / 0x80000000;
+      default: throw new Error('Unsupported WAV encoding.');
+    }
+  };
+
+  const frames = Math.floor(dataSize / (bytes * channels));
+  const mono = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += read(dataOffset + (i * channels + c) * bytes);
+    mono[i] = sum / channels;
+  }
+  if (!sampleRate || sampleRate === rate) return { samples: mono, sampleRate: rate };
+
+  const ratio = rate / sampleRate;
+  const resampled = new Float32Array(Math.floor(frames / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = mono[Math.min(index + 1, frames - 1)];
+    resampled[i] = mono[index] + (next - mono[index]) * (position - index);
+  }
+  return { samples: resampled, sampleRate };
+};
@@ -0,0 +1,55 @@
+import { getMonoSamples } from './audioUtils';
+
+export const PEAKS_PER_SECOND = 200;
+
+export interface Waveform {
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  duration: number;
+}
+
+// Reduces the decoded audio to one absolute peak per bucket, normalized to 0..1.
+export const computeWaveform = (buffer: AudioBuffer, peaksPerSecond = PEAKS_PER_SECOND): Waveform => {
+  const samples = getMonoSamples(buffer);
+  const bucketSize = Math.max(1, Math.floor(buffer.sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucketSize));
+  let max = 0;
+  for (let b = 0; b < peaks.length; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (b + 1) * bucketSize);
+    for (let i = b * bucketSize; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[b] = peak;
+    if (peak > max) max = peak;
+  }
+  if (max > 0) {
+    for (let b = 0; b < peaks.length; b++) peaks[b] /= max;
+  }
+  return { peaks, peaksPerSecond: buffer.sampleRate / bucketSize, duration: buffer.duration };
+};
+
+export const drawWaveform = (
+  ctx: CanvasRenderingContext2D,
+  waveform: Waveform,
+  fromTime: number,
+  pixelsPerSecond: number,
+  color: string,
+) => {
+  const { width, height } = ctx.canvas;
+  const middle = height / 2;
+  ctx.fillStyle = color;
+  for (let x = 0; x < width; x++) {
+    const t0 = fromTime + x / pixelsPerSecond;
+    const t1 = fromTime + (x + 1) / pixelsPerSecond;
+    const from = Math.floor(t0 * waveform.peaksPerSecond);
+    const to = Math.max(from + 1, Math.floor(t1 * waveform.peaksPerSecond));
+    let peak = 0;
+    for (let i = from; i < to && i < waveform.peaks.length; i++) {
+      if (waveform.peaks[i] > peak) peak = waveform.peaks[i];
+    }
+    const barHeight = Math.max(1, peak * (height - 4));
+    ctx.fillRect(x, middle - barHeight / 2, 1, barHeight);
+  }
+};
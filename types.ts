@@ -3,6 +3,20 @@ export interface WordTiming {
   word: string;
   start: number;
   end: number;
+  // 0–1, how far the timing can be trusted (see services/confidence).
+  confidence?: number;
+  // 0–1, the aligner's own estimate, when it gives one. One of the inputs to `confidence`.
+  reportedConfidence?: number;
+  // Id of the `Speaker` saying the word, from diarization or assigned by hand.
+  speaker?: string;
+}
+
+export interface Speaker {
+  // For diarized or imported speakers the id is the label the aligner or file used.
+  id: string;
+  name: string;
+  // CSS colour.
+  color: string;
 }
 
 export interface ViewElementWord extends WordTiming {
@@ -14,3 +28,280 @@ export interface ViewElementWhitespace {
   content: string;
 }
 export type ViewElement = ViewElementWord | ViewElementWhitespace;
+
+export type AlignerId = 'gemini' | 'local';
+
+export interface AlignmentRequest {
+  audio: Blob;
+  mimeType: string;
+  transcript: string;
+  // BCP 47 code of the transcript's language, e.g. 'ar' or 'en'.
+  language?: string;
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  mimeType: string;
+  language?: string;
+}
+
+export interface TranslationAlignmentRequest {
+  // Source transcript sentences, in order.
+  sources: string[];
+  translation: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+export interface Aligner {
+  id: AlignerId;
+  label: string;
+  description: string;
+  requiresNetwork: boolean;
+  // Model or algorithm version. Part of the alignment cache key, so change it when results would.
+  model: string;
+  isAvailable: () => boolean;
+  align: (request: AlignmentRequest) => Promise<WordTiming[]>;
+  // Backends that can also recognise speech transcribe audio with no transcript.
+  transcribe?: (request: TranscriptionRequest) => Promise<WordTiming[]>;
+  // Splits a translation into one part per source sentence.
+  alignTranslation: (request: TranslationAlignmentRequest) => Promise<string[]>;
+}
+
+export type ReconciliationIssueKind = 'substituted' | 'missing' | 'extra' | 'merged' | 'split';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  transcriptIndex?: number;
+  transcriptWord?: string;
+  modelWords: string[];
+}
+
+export interface AudioPreprocessing {
+  enabled: boolean;
+  sampleRate: number;
+  normalize: boolean;
+  trimSilence: boolean;
+  // Only this part of the file (seconds) is aligned; not persisted between files.
+  range: { start: number; end: number } | null;
+}
+
+export type QualityGrade = 'good' | 'fair' | 'poor';
+
+export interface QualityReport {
+  average: number;
+  grade: QualityGrade;
+  // Indices of words below the review threshold, in order.
+  lowWords: number[];
+  worstRun: WordRange | null;
+}
+
+export interface ReconciliationResult {
+  timings: WordTiming[];
+  issues: ReconciliationIssue[];
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface AlignmentChunk {
+  index: number;
+  start: number;
+  end: number;
+  tokenFrom: number;
+  tokenTo: number;
+  status: ChunkStatus;
+  attempts: number;
+  error?: string;
+  // Transcript-token index and absolute timing of every word the aligner actually matched.
+  words?: { token: number; timing: WordTiming }[];
+}
+
+export interface ChunkedAlignmentJob {
+  key: string;
+  duration: number;
+  chunks: AlignmentChunk[];
+}
+
+// Stitched aligner output for one audio file, transcript and backend, keyed by a hash of all three.
+export interface CachedAlignment {
+  key: string;
+  alignerId: AlignerId;
+  model: string;
+  duration: number;
+  timings: WordTiming[];
+  createdAt: number;
+}
+
+export type UsageKind = 'align' | 'transcribe';
+
+// One request to a paid backend, or an alignment served from the cache instead (`cached`).
+export interface UsageRecord {
+  at: number;
+  project: string;
+  alignerId: AlignerId;
+  kind: UsageKind;
+  requests: number;
+  audioSeconds: number;
+  estimatedTokens: number;
+  cached?: boolean;
+}
+
+// Caps over the last 24 hours; null means no limit.
+export interface UsageLimits {
+  requestsPerDay: number | null;
+  audioMinutesPerDay: number | null;
+  tokensPerDay: number | null;
+}
+
+export type TimingIssueSeverity = 'info' | 'warning' | 'error';
+
+export type TimingIssueCode =
+  | 'malformed'
+  | 'non-finite'
+  | 'negative'
+  | 'beyond-duration'
+  | 'end-before-start'
+  | 'out-of-order'
+  | 'overlap'
+  | 'too-short'
+  | 'gap-closed';
+
+export interface TimingIssue {
+  code: TimingIssueCode;
+  severity: TimingIssueSeverity;
+  message: string;
+  word?: string;
+  wordIndex?: number;
+}
+
+export interface TimingValidationResult {
+  timings: WordTiming[];
+  issues: TimingIssue[];
+}
+
+export interface TimingHistory {
+  past: WordTiming[][];
+  future: WordTiming[][];
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  audio: Blob;
+  audioName: string;
+  transcript: string;
+  timings: WordTiming[];
+  history: TimingHistory;
+  // Language code or 'auto'; missing on projects saved before languages were selectable.
+  language?: string;
+  direction?: DirectionSetting;
+  translation?: Translation;
+  // Names and colours for the `speaker` labels on the timings.
+  speakers?: Speaker[];
+  bookmarks?: Bookmark[];
+}
+
+// A user bookmark on a run of words, with an optional note.
+export interface Bookmark extends WordRange {
+  id: string;
+  title: string;
+  note: string;
+  createdAt: number;
+}
+
+export type OutlineEntryKind = 'heading' | 'paragraph';
+
+// A navigable section of the transcript; headings span up to the next heading.
+export interface OutlineEntry extends WordRange {
+  kind: OutlineEntryKind;
+  title: string;
+  startTime: number;
+}
+
+// A second text shown alongside the transcript, aligned to it sentence by sentence.
+export interface Translation {
+  text: string;
+  language: string;
+  // The translated text of each source sentence, by sentence index.
+  segments: string[];
+}
+
+export type ParallelLayout = 'side-by-side' | 'interlinear';
+
+export type TextDirection = 'rtl' | 'ltr';
+export type DirectionSetting = TextDirection | 'auto';
+
+export type HighlightStyle = 'box' | 'underline' | 'color' | 'karaoke';
+export type LayoutMode = 'page' | 'line' | 'sentence' | 'paragraph';
+
+export type SegmentKind = 'sentence' | 'line' | 'paragraph';
+
+// A run of words (inclusive word indices) with timings derived from its first and last word.
+export interface TextSegment extends WordRange {
+  kind: SegmentKind;
+  index: number;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export type TextSegments = Record<SegmentKind, TextSegment[]>;
+
+// What gets emphasized while reading: the current word, the segment around it, or read vs. unread.
+export type HighlightMode = 'word' | SegmentKind | 'progress';
+export type VideoContainer = 'webm' | 'mp4';
+
+export type ReaderTheme = 'light' | 'sepia' | 'dark' | 'high-contrast';
+// A band on the current line, or everything but the current line dimmed.
+export type ReadingGuide = 'off' | 'ruler' | 'mask';
+// What the screen-reader live region reads out during playback.
+export type ReaderAnnouncement = 'off' | 'sentence' | 'word';
+
+// How the synced reader displays text; persisted per browser.
+export interface ReaderSettings {
+  fontFamily: string;
+  fontSize: number;
+  lineHeight: number;
+  // In em.
+  letterSpacing: number;
+  wordSpacing: number;
+  theme: ReaderTheme;
+  reducedMotion: boolean;
+  readingGuide: ReadingGuide;
+  announce: ReaderAnnouncement;
+}
+
+export interface ExportSettings {
+  width: number;
+  height: number;
+  fps: number;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  lineHeight: number;
+  padding: number;
+  textColor: string;
+  activeTextColor: string;
+  highlightColor: string;
+  backgroundColor: string;
+  backgroundImage: string | null;
+  highlightStyle: HighlightStyle;
+  highlightMode: HighlightMode;
+  layoutMode: LayoutMode;
+  // Burn the current sentence's translation in as a subtitle line, when the project has one.
+  showTranslation: boolean;
+  // Colour words by speaker and show who is talking, when speakers are assigned.
+  showSpeakers: boolean;
+  container: VideoContainer;
+  videoBitrate: number;
+  audioBitrate: number;
+  fileName: string;
+}
+
+// Inclusive range of word indices.
+export interface WordRange {
+  start: number;
+  end: number;
+}